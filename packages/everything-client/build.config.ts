@@ -1,5 +1,45 @@
+import { readFile } from "node:fs/promises";
+import { isBuiltin } from "node:module";
+import { basename, dirname, join } from "node:path";
 import { defineBuildConfig } from "unbuild";
 
+/**
+ * Entries that must run in browsers, so may not import Node.js built-ins
+ */
+const UNIVERSAL_ENTRIES = new Set(["http"]);
+
+/**
+ * Module specifiers of static imports, dynamic imports and requires
+ */
+const IMPORT_SPECIFIER =
+  /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)["']([^"']+)["']/g;
+
+/**
+ * Find the Node.js built-ins a bundled file imports, following its chunks
+ */
+async function findBuiltinImports(outDir: string, file: string) {
+  const builtins = new Set<string>();
+  const queue = [file];
+  const seen = new Set(queue);
+
+  for (const current of queue) {
+    const code = await readFile(join(outDir, current), "utf8");
+    for (const [, specifier] of code.matchAll(IMPORT_SPECIFIER)) {
+      if (isBuiltin(specifier)) {
+        builtins.add(specifier);
+      } else if (specifier.startsWith(".")) {
+        const chunk = join(dirname(current), specifier);
+        if (!seen.has(chunk)) {
+          seen.add(chunk);
+          queue.push(chunk);
+        }
+      }
+    }
+  }
+
+  return [...builtins];
+}
+
 export default defineBuildConfig({
   declaration: true,
   entries: [
@@ -11,14 +51,42 @@ export default defineBuildConfig({
       name: "cli",
     },
     {
-      input: "src/adapters/http-adapter.ts",
+      input: "src/http.ts",
       name: "http",
     },
     {
-      input: "src/adapters/ipc-adapter.ts",
+      input: "src/ipc.ts",
       name: "ipc",
     },
+    {
+      input: "src/adapters/ipc-worker.ts",
+      name: "ipc-worker",
+    },
+    {
+      input: "src/testing/index.ts",
+      name: "testing",
+    },
   ],
+  hooks: {
+    async "rollup:done"(ctx) {
+      for (const entry of ctx.buildEntries) {
+        const name = basename(entry.path).replace(/\.[cm]?js$/, "");
+        if (!UNIVERSAL_ENTRIES.has(name)) {
+          continue;
+        }
+
+        const builtins = await findBuiltinImports(
+          ctx.options.outDir,
+          entry.path,
+        );
+        if (builtins.length > 0) {
+          throw new Error(
+            `${entry.path} must run in browsers but imports ${builtins.join(", ")}`,
+          );
+        }
+      }
+    },
+  },
   rollup: {
     inlineDependencies: true,
     emitCJS: true,
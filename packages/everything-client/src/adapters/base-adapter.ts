@@ -1,9 +1,19 @@
 import type {
+  AdapterCapabilities,
+  ChangeFeedOptions,
+  ExportOptions,
   FileChangeCallback,
+  OperationOptions,
+  SearchField,
+  SearchIterator,
+  SearchIteratorOptions,
   SearchOptions,
-  SearchResult,
+  SearchQuery,
+  SearchResultSet,
   SearchStatus,
+  SelectedSearchResult,
   Unsubscribe,
+  WatchOptions,
 } from "../types";
 
 /**
@@ -13,7 +23,33 @@ export interface BaseAdapter {
   /**
    * Search for files and directories.
    */
-  search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
+  search<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options?: SearchOptions<F>,
+  ): Promise<SearchResultSet<SelectedSearchResult<F>>>;
+
+  /**
+   * Iterate over every result of a search, fetching pages on demand.
+   */
+  searchIterator<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options?: SearchIteratorOptions<F>,
+  ): SearchIterator<SelectedSearchResult<F>>;
+
+  /**
+   * Export search results natively. Without it, the client writes the
+   * results itself.
+   */
+  exportResults?<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: ExportOptions<F>,
+  ): Promise<number>;
+
+  /**
+   * Get the adapter that does the work, for adapters that stand in for
+   * another one. The client checks it for a native export.
+   */
+  resolveAdapter?(): Promise<BaseAdapter>;
 
   /**
    * Connect to the Everything service.
@@ -30,23 +66,40 @@ export interface BaseAdapter {
    */
   isConnected(): boolean;
 
+  /**
+   * Describe what the adapter supports.
+   */
+  getCapabilities(): Promise<AdapterCapabilities>;
+
   /**
    * Get the Everything version.
    */
-  getVersion(): Promise<string>;
+  getVersion(options?: OperationOptions): Promise<string>;
 
   /**
    * Rebuild the Everything index.
    */
-  rebuildIndex(): Promise<void>;
+  rebuildIndex(options?: OperationOptions): Promise<void>;
 
   /**
    * Get the current search status.
    */
-  getSearchStatus(): Promise<SearchStatus>;
+  getSearchStatus(options?: OperationOptions): Promise<SearchStatus>;
 
   /**
    * Monitor file changes.
    */
-  monitorFileChanges(callback: FileChangeCallback): Unsubscribe;
+  monitorFileChanges(
+    callback: FileChangeCallback,
+    options?: ChangeFeedOptions,
+  ): Unsubscribe;
+
+  /**
+   * Watch the results of a query for changes.
+   */
+  watch(
+    query: SearchQuery,
+    options: WatchOptions,
+    callback: FileChangeCallback,
+  ): Unsubscribe;
 }
@@ -1,23 +1,66 @@
-import { exec } from "node:child_process";
+import { spawn } from "node:child_process";
 import { existsSync } from "node:fs";
 import { arch, platform } from "node:os";
-import { join } from "node:path";
-import { promisify } from "node:util";
+import type { Readable } from "node:stream";
+import { resolveQuery } from "../query";
 import type {
+  AdapterCapabilities,
+  ChangeFeedOptions,
+  ExportFormat,
+  ExportOptions,
   FileChangeCallback,
+  OperationOptions,
+  SearchField,
+  SearchIterator,
+  SearchIteratorOptions,
   SearchOptions,
+  SearchQuery,
   SearchResult,
+  SearchResultSet,
+  SearchSortKey,
   SearchStatus,
+  SelectedSearchResult,
   Unsubscribe,
+  WatchOptions,
 } from "../types";
+import { throwIfAborted } from "../utils/abort";
+import { SORT_KEYS, assertSearchSupported } from "../utils/capabilities";
+import { watchChanges } from "../utils/change-feed";
+import { CSVParser } from "../utils/csv";
 import {
+  CLI_EXIT_CODES,
+  EverythingAbortError,
   EverythingCLIError,
   EverythingConnectionError,
   EverythingSearchError,
 } from "../utils/errors";
+import { exportSearchResults } from "../utils/export";
+import { SEARCH_FIELDS, resolveFields } from "../utils/fields";
+import { fileTimeToDate } from "../utils/filetime";
+import { ASSET_DIRS, findPackageFile } from "../utils/package-files";
+import {
+  type SearchPage,
+  createSearchIterator,
+  fetchSearchResultSet,
+} from "../utils/pagination";
+import { watchQuery } from "../utils/watch";
 import type { BaseAdapter } from "./base-adapter";
 
-const execPromise = promisify(exec);
+/**
+ * A running es.exe process. ChildProcess satisfies this, and so can a fake.
+ */
+export interface CLIProcess {
+  stdout: Readable | null;
+  stderr: Readable | null;
+  kill(): boolean;
+  once(event: "error", listener: (error: Error) => void): unknown;
+  once(event: "close", listener: (code: number | null) => void): unknown;
+}
+
+/**
+ * Start es.exe with an argument list, without going through a shell
+ */
+export type CLIProcessRunner = (command: string, args: string[]) => CLIProcess;
 
 /**
  * Options for the CLI adapter
@@ -25,6 +68,15 @@ const execPromise = promisify(exec);
 export interface CLIAdapterOptions {
   cliPath?: string;
   timeout?: number;
+  /** Throw for search options es.exe would ignore */
+  strict?: boolean;
+  /** Largest output, or single result line, read from es.exe (in characters) */
+  maxBuffer?: number;
+  /**
+   * Start es.exe processes, e.g. to run a fake es binary. Providing a
+   * runner or a cliPath allows the adapter outside Windows.
+   */
+  runner?: CLIProcessRunner;
 }
 
 /**
@@ -32,6 +84,131 @@ export interface CLIAdapterOptions {
  */
 const DEFAULT_OPTIONS: CLIAdapterOptions = {
   timeout: 10000,
+  maxBuffer: 1024 * 1024,
+};
+
+/**
+ * Run processes with child_process.spawn
+ */
+const spawnRunner: CLIProcessRunner = (command, args) =>
+  spawn(command, args, { windowsHide: true });
+
+/**
+ * es.exe `-sort` names for each sort key; es.exe cannot sort by type name
+ */
+const SORT_NAMES: Record<SearchSortKey, string | null> = {
+  name: "name",
+  path: "path",
+  size: "size",
+  extension: "extension",
+  "type-name": null,
+  date: "date-modified",
+  "date-created": "date-created",
+  "date-accessed": "date-accessed",
+  attributes: "attributes",
+  "run-count": "run-count",
+  "date-recently-changed": "date-recently-changed",
+  "date-run": "date-run",
+};
+
+/**
+ * What the CLI adapter can do through es.exe
+ */
+const CAPABILITIES: AdapterCapabilities = {
+  options: [
+    "matchCase",
+    "matchWholeWord",
+    "regex",
+    "maxResults",
+    "offset",
+    "sortBy",
+    "sortOrder",
+  ],
+  sortKeys: SORT_KEYS.filter((key) => SORT_NAMES[key] !== null),
+  fields: SEARCH_FIELDS,
+  operations: [
+    "getVersion",
+    "rebuildIndex",
+    "getSearchStatus",
+    "monitorFileChanges",
+    "watch",
+  ],
+};
+
+/**
+ * es.exe column switches for each search field, in output order
+ */
+const COLUMN_SWITCHES: Array<[SearchField, string]> = [
+  ["size", "-size"],
+  ["dateModified", "-date-modified"],
+  ["dateCreated", "-date-created"],
+  ["dateAccessed", "-date-accessed"],
+  ["attributes", "-attributes"],
+  ["runCount", "-run-count"],
+  ["dateRecentlyChanged", "-date-recently-changed"],
+];
+
+/**
+ * Get the columns to print for a search. The attributes column is always
+ * printed, since it is the only way es.exe tells folders from files.
+ */
+function resultColumns(fields: Set<SearchField>): Array<[SearchField, string]> {
+  return COLUMN_SWITCHES.filter(
+    ([field]) => fields.has(field) || field === "attributes",
+  );
+}
+
+/**
+ * Export formats es.exe writes itself through its `-export-*` switches
+ */
+type CLIExportFormat = Exclude<ExportFormat, "jsonl">;
+
+/**
+ * Formats es.exe can export to
+ */
+const CLI_EXPORT_FORMATS: readonly ExportFormat[] = [
+  "csv",
+  "tsv",
+  "txt",
+  "m3u",
+  "m3u8",
+  "efu",
+];
+
+/**
+ * Titles es.exe prints in the CSV header for each column
+ */
+const COLUMN_TITLES: Record<string, SearchField | "fullPath"> = {
+  filename: "fullPath",
+  "full path": "fullPath",
+  name: "name",
+  path: "path",
+  size: "size",
+  "date modified": "dateModified",
+  "date created": "dateCreated",
+  "date accessed": "dateAccessed",
+  attributes: "attributes",
+  "run count": "runCount",
+  "date recently changed": "dateRecentlyChanged",
+};
+
+/**
+ * File attribute bits for the letters es.exe prints in the attributes column
+ */
+const ATTRIBUTE_LETTERS: Record<string, number> = {
+  R: 0x1, // FILE_ATTRIBUTE_READONLY
+  H: 0x2, // FILE_ATTRIBUTE_HIDDEN
+  S: 0x4, // FILE_ATTRIBUTE_SYSTEM
+  D: 0x10, // FILE_ATTRIBUTE_DIRECTORY
+  A: 0x20, // FILE_ATTRIBUTE_ARCHIVE
+  N: 0x80, // FILE_ATTRIBUTE_NORMAL
+  T: 0x100, // FILE_ATTRIBUTE_TEMPORARY
+  P: 0x200, // FILE_ATTRIBUTE_SPARSE_FILE
+  L: 0x400, // FILE_ATTRIBUTE_REPARSE_POINT
+  C: 0x800, // FILE_ATTRIBUTE_COMPRESSED
+  O: 0x1000, // FILE_ATTRIBUTE_OFFLINE
+  I: 0x2000, // FILE_ATTRIBUTE_NOT_CONTENT_INDEXED
+  E: 0x4000, // FILE_ATTRIBUTE_ENCRYPTED
 };
 
 /**
@@ -41,24 +218,103 @@ export function createCLIAdapter(options: CLIAdapterOptions = {}): CLIAdapter {
   return new CLIAdapter(options);
 }
 
+/**
+ * Build the es.exe arguments for one page of a search, ending with the
+ * query. Results are printed as CSV: the full path, then the columns of the
+ * requested fields and the attributes. Exports only hold requested columns.
+ * @param exportTo Have es.exe write the results to a file instead
+ */
+export function buildCLIArgs(
+  query: string,
+  options: SearchOptions,
+  exportTo?: { format: CLIExportFormat; file: string },
+): string[] {
+  const args = buildMatchArgs(options);
+
+  // Result limit
+  if (typeof options.maxResults === "number") {
+    args.push("-n", options.maxResults.toString());
+  }
+
+  if (typeof options.offset === "number") {
+    args.push("-o", options.offset.toString());
+  }
+
+  // Sorting, by name unless told otherwise
+  const sortName = SORT_NAMES[options.sortBy ?? "name"];
+  if ((options.sortBy || options.sortOrder) && sortName) {
+    const direction = options.sortOrder === "desc" ? "descending" : "ascending";
+    args.push("-sort", `${sortName}-${direction}`);
+  }
+
+  // Columns: the full path first, then the requested fields
+  const fields = resolveFields(options);
+  const columns = exportTo
+    ? COLUMN_SWITCHES.filter(([field]) => fields.has(field))
+    : resultColumns(fields);
+  args.push("-full-path-and-name");
+  for (const [, columnSwitch] of columns) {
+    args.push(columnSwitch);
+  }
+  args.push("-size-format", "1"); // Sizes in bytes
+
+  if (exportTo) {
+    // ISO 8601 dates for people, FILETIME dates for Everything file lists
+    args.push("-date-format", exportTo.format === "efu" ? "2" : "1");
+    args.push(`-export-${exportTo.format}`, exportTo.file);
+  } else {
+    // FILETIME dates and CSV to make parsing easier
+    args.push("-date-format", "2");
+    args.push("-csv");
+  }
+
+  args.push(query);
+  return args;
+}
+
+/**
+ * Build the switches that affect which results match
+ */
+function buildMatchArgs(options: SearchOptions): string[] {
+  const args: string[] = [];
+
+  if (options.matchCase) {
+    args.push("-case");
+  }
+
+  if (options.matchWholeWord) {
+    args.push("-whole-word");
+  }
+
+  if (options.regex) {
+    args.push("-regex");
+  }
+
+  return args;
+}
+
 /**
  * Adapter for CLI communication with Everything
  */
 export class CLIAdapter implements BaseAdapter {
   private options: CLIAdapterOptions;
+  private runner: CLIProcessRunner;
   private cliPath: string;
   private connected = false;
-  private currentQuery?: string;
+  private lastTotal = 0;
 
   /**
    * Create a new CLI adapter
    */
   constructor(options: CLIAdapterOptions = {}) {
-    if (platform() !== "win32") {
-      throw new EverythingCLIError("CLI adapter is only available on Windows");
+    if (platform() !== "win32" && !options.runner && !options.cliPath) {
+      throw new EverythingCLIError("CLI adapter is only available on Windows", {
+        code: "unsupported",
+      });
     }
 
     this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.runner = this.options.runner ?? spawnRunner;
     this.cliPath = this.resolveCLIPath();
   }
 
@@ -66,22 +322,22 @@ export class CLIAdapter implements BaseAdapter {
    * Resolve the path to the Everything CLI executable
    */
   private resolveCLIPath(): string {
-    // Check if user provided a path
-    if (this.options.cliPath && existsSync(this.options.cliPath)) {
+    // Check if user provided a path; a custom runner decides what it means
+    if (
+      this.options.cliPath &&
+      (this.options.runner || existsSync(this.options.cliPath))
+    ) {
       return this.options.cliPath;
     }
 
     // Check if we have the CLI in our package
-    const packageCliPath = join(
-      __dirname,
-      "..",
-      "..",
-      "assets",
-      "bin",
-      arch() === "x64" ? "es64.exe" : "es32.exe",
+    const packageCliPath = findPackageFile(
+      import.meta.url,
+      ASSET_DIRS.map(
+        (dir) => `${dir}/${arch() === "x64" ? "es64.exe" : "es32.exe"}`,
+      ),
     );
-
-    if (existsSync(packageCliPath)) {
+    if (packageCliPath) {
       return packageCliPath;
     }
 
@@ -99,13 +355,12 @@ export class CLIAdapter implements BaseAdapter {
 
     try {
       // Test if we can run the CLI
-      await execPromise(`"${this.cliPath}" -h`, {
-        timeout: this.options.timeout,
-      });
+      await this.run(["-h"]);
       this.connected = true;
     } catch (error) {
       throw new EverythingConnectionError(
         `Failed to connect to Everything CLI: ${error instanceof Error ? error.message : String(error)}`,
+        { adapter: "cli", cause: error },
       );
     }
   }
@@ -124,177 +379,213 @@ export class CLIAdapter implements BaseAdapter {
     return this.connected;
   }
 
+  /**
+   * Describe what the adapter supports
+   */
+  public async getCapabilities(): Promise<AdapterCapabilities> {
+    return CAPABILITIES;
+  }
+
   /**
    * Search for files and folders
    */
-  public async search(
+  public async search<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: SearchOptions<F> = {},
+  ): Promise<SearchResultSet<SelectedSearchResult<F>>> {
+    const queryString = resolveQuery(query);
+    return fetchSearchResultSet(
+      (pageOptions) => this.searchPage(queryString, pageOptions),
+      queryString,
+      options,
+    );
+  }
+
+  /**
+   * Iterate over every result of a search, fetching pages on demand
+   */
+  public searchIterator<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: SearchIteratorOptions<F> = {},
+  ): SearchIterator<SelectedSearchResult<F>> {
+    const queryString = resolveQuery(query);
+    return createSearchIterator(
+      (pageOptions) => this.searchPage(queryString, pageOptions),
+      options,
+    );
+  }
+
+  /**
+   * Run es.exe for one page of results, and again for the total count
+   */
+  private async searchPage(
     query: string,
-    options: SearchOptions = {},
-  ): Promise<SearchResult[]> {
+    options: SearchOptions,
+  ): Promise<SearchPage> {
+    if (this.options.strict) {
+      assertSearchSupported("cli", CAPABILITIES, options);
+    }
+
+    throwIfAborted(options.signal, "cli");
+
     if (!this.connected) {
       await this.connect();
     }
 
-    this.currentQuery = query;
-
     try {
-      // Build command line arguments
-      const args: string[] = [];
-
-      // Search options
-      if (options.matchCase) {
-        args.push("-case");
-      }
-
-      if (options.matchWholeWord) {
-        args.push("-whole-word");
-      }
-
-      if (options.regex) {
-        args.push("-regex");
-      }
-
-      // Result limit
-      if (typeof options.maxResults === "number") {
-        args.push("-n", options.maxResults.toString());
-      }
-
-      if (typeof options.offset === "number") {
-        args.push("-o", options.offset.toString());
-      }
-
-      // Sorting
-      if (options.sortBy) {
-        switch (options.sortBy) {
-          case "date":
-            args.push("-s"); // Use the simpler sorting option
-            break;
-          case "name":
-            // Default sort is by name, no need to specify
-            break;
-          case "size":
-            args.push("/os"); // DIR style size sorting
-            break;
-          case "path":
-            args.push("-s"); // Path sorting
-            break;
-        }
-        // Add descending sorting if needed
-        if (options.sortOrder === "desc") {
-          if (options.sortBy === "size") {
-            args.push("/o-s"); // DIR style descending size sort
-          } else if (options.sortBy === "date") {
-            args.push("/o-d"); // DIR style descending date sort
-          } else if (options.sortBy === "name") {
-            args.push("/o-n"); // DIR style descending name sort
-          }
-        }
-      }
-
-      // Format as CSV to make parsing easier
-      args.push("-csv");
-
-      // Escape the query if it has spaces
-      const escapedQuery = query.includes(" ") ? `"${query}"` : query;
-
-      // Execute the command
-      const command = `"${this.cliPath}" ${args.join(" ")} ${escapedQuery}`;
-      const { stdout, stderr } = await execPromise(command, {
-        timeout: this.options.timeout,
+      const fields = resolveFields(options);
+      const columns = resultColumns(fields);
+      // Stream the results. The query is passed as its own argument, so no
+      // quoting or escaping is needed.
+      const items: SearchResult[] = [];
+      const reader = new CSVResultReader(
+        columns.map(([field]) => field),
+        fields,
+      );
+      await this.run(buildCLIArgs(query, options), {
+        signal: options.signal,
+        onLine: (line) => {
+          items.push(...reader.write(`${line}\n`));
+        },
       });
+      items.push(...reader.end());
 
-      if (stderr) {
-        throw new Error(stderr);
-      }
-
-      // Parse the results
-      return this.parseCSVResults(stdout);
+      const totalResults = await this.countResults(
+        query,
+        options,
+        items.length,
+      );
+      this.lastTotal = totalResults;
+      return {
+        items,
+        totalResults,
+        availableFields: [...fields],
+      };
     } catch (error) {
+      // Aborting kills the es.exe processes
+      throwIfAborted(options.signal, "cli");
       throw new EverythingSearchError(
         `Search failed: ${error instanceof Error ? error.message : String(error)}`,
+        { adapter: "cli", cause: error },
       );
     }
   }
 
   /**
-   * Parse CSV results from the CLI output
+   * Get the total number of matches for a page of results. A page that is
+   * not full holds the last results, so the total follows from it. After a
+   * full page es.exe runs again with `-get-result-count`, so the total is
+   * approximate if the index changes in between.
    */
-  private parseCSVResults(csvData: string): SearchResult[] {
-    const results: SearchResult[] = [];
-    const lines = csvData.trim().split("\n");
-
-    // Skip if empty
-    if (lines.length === 0) {
-      return results;
+  private async countResults(
+    query: string,
+    options: SearchOptions,
+    pageLength: number,
+  ): Promise<number> {
+    const offset = options.offset ?? 0;
+    const full =
+      typeof options.maxResults === "number" &&
+      pageLength >= options.maxResults;
+    if (!full && (pageLength > 0 || offset === 0)) {
+      return offset + pageLength;
     }
 
-    // Process each line
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-
-      // Split the CSV line, handling quoted values
-      const values = line.split(",").map((value) => {
-        if (value.startsWith('"') && value.endsWith('"')) {
-          return value.substring(1, value.length - 1);
-        }
-        return value;
-      });
+    const output = await this.run(
+      [...buildMatchArgs(options), "-get-result-count", query],
+      { signal: options.signal },
+    );
+    const count = Number.parseInt(output.trim(), 10);
+    return Number.isNaN(count) ? offset + pageLength : count;
+  }
 
-      if (values.length < 1) {
-        continue; // Skip malformed lines
-      }
+  /**
+   * Run es.exe with the given arguments
+   * @returns Its output, unless it was passed to onLine
+   */
+  private run(args: string[], options: RunOptions = {}): Promise<string> {
+    return runProcess(this.runner, this.cliPath, args, {
+      timeout: this.options.timeout,
+      maxBuffer: this.options.maxBuffer,
+      ...options,
+    });
+  }
 
-      const fullPath = values[0];
+  /**
+   * Export search results. es.exe writes files in the formats it knows
+   * itself; anything else is written from the search results. Native
+   * exports have no timeout, as large ones take a while; pass a signal to
+   * cancel them.
+   * @returns The number of results written. For native exports es.exe
+   * does not report it, so it is counted by a separate es.exe run and is
+   * approximate if the index changes during the export.
+   */
+  public async exportResults<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: ExportOptions<F>,
+  ): Promise<number> {
+    const { format, destination } = options;
+    if (
+      typeof destination !== "string" ||
+      !CLI_EXPORT_FORMATS.includes(format)
+    ) {
+      return exportSearchResults(this.searchIterator(query, options), options);
+    }
 
-      // Extract file name and path
-      let fileName = fullPath;
-      let path = "";
+    if (this.options.strict) {
+      assertSearchSupported("cli", CAPABILITIES, options);
+    }
 
-      const lastBackslashIndex = fullPath.lastIndexOf("\\");
-      if (lastBackslashIndex !== -1) {
-        fileName = fullPath.substring(lastBackslashIndex + 1);
-        path = fullPath.substring(0, lastBackslashIndex);
-      }
+    throwIfAborted(options.signal, "cli");
 
-      // Get file stats to determine if it's a directory
-      const isDirectory = fullPath.endsWith("\\") || fileName === "";
-
-      results.push({
-        name: fileName,
-        path,
-        fullPath,
-        size: 0, // Default to 0 as we don't have size info
-        dateModified: new Date(), // Default to current date
-        dateCreated: new Date(),
-        dateAccessed: new Date(),
-        attributes: 0,
-        isDirectory,
-        isHidden: false,
-        isSystem: false,
-        isReadOnly: false,
-      });
+    if (!this.connected) {
+      await this.connect();
     }
 
-    return results;
+    const queryString = resolveQuery(query);
+    try {
+      const [, countOutput] = await Promise.all([
+        this.run(
+          buildCLIArgs(queryString, options, {
+            format: format as CLIExportFormat,
+            file: destination,
+          }),
+          { signal: options.signal, timeout: undefined },
+        ),
+        this.run(
+          [...buildMatchArgs(options), "-get-result-count", queryString],
+          { signal: options.signal, timeout: undefined },
+        ),
+      ]);
+
+      // es.exe reports every match, the export holds the requested page
+      const total = Number.parseInt(countOutput.trim(), 10) || 0;
+      const remaining = Math.max(0, total - (options.offset ?? 0));
+      return Math.min(remaining, options.maxResults ?? remaining);
+    } catch (error) {
+      throwIfAborted(options.signal, "cli");
+      throw new EverythingCLIError(
+        `Failed to export results: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error },
+      );
+    }
   }
 
   /**
    * Get the Everything version
    */
-  public async getVersion(): Promise<string> {
+  public async getVersion(options: OperationOptions = {}): Promise<string> {
     if (!this.connected) {
       await this.connect();
     }
 
     try {
-      const { stdout } = await execPromise(`"${this.cliPath}" -version`, {
-        timeout: this.options.timeout,
-      });
+      const stdout = await this.run(["-version"], { signal: options.signal });
       return stdout.trim();
     } catch (error) {
+      throwIfAborted(options.signal, "cli");
       throw new EverythingCLIError(
         `Failed to get version: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error },
       );
     }
   }
@@ -302,131 +593,364 @@ export class CLIAdapter implements BaseAdapter {
   /**
    * Rebuild the Everything index
    */
-  public async rebuildIndex(): Promise<void> {
+  public async rebuildIndex(options: OperationOptions = {}): Promise<void> {
     if (!this.connected) {
       await this.connect();
     }
 
     try {
-      await execPromise(`"${this.cliPath}" -rebuild`, {
-        timeout: this.options.timeout,
-      });
+      await this.run(["-rebuild"], { signal: options.signal });
     } catch (error) {
+      throwIfAborted(options.signal, "cli");
       throw new EverythingCLIError(
         `Failed to rebuild index: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error },
       );
     }
   }
 
   /**
-   * Get the current search status
+   * Get the status of the last search made through the adapter. es.exe
+   * keeps no search state, so no process is started.
    */
-  public async getSearchStatus(): Promise<SearchStatus> {
+  public async getSearchStatus(
+    options: OperationOptions = {},
+  ): Promise<SearchStatus> {
+    throwIfAborted(options.signal, "cli");
+
     if (!this.connected) {
       await this.connect();
     }
 
-    try {
-      // Use -get-result-count option with the current search query
-      const command = `"${this.cliPath}" -get-result-count ${this.currentQuery || "*"}`;
-      const { stdout } = await execPromise(command, {
-        timeout: this.options.timeout,
-      });
-      const totalResults = Number.parseInt(stdout.trim(), 10);
-
-      return {
-        totalResults,
-        indexingComplete: true,
-        percentComplete: 100,
-      };
-    } catch (error) {
-      throw new EverythingCLIError(
-        `Failed to get search status: ${error instanceof Error ? error.message : String(error)}`,
-      );
-    }
+    return {
+      totalResults: this.lastTotal,
+      indexingComplete: true,
+      percentComplete: 100,
+    };
   }
 
   /**
-   * Monitor file changes - not well supported by CLI
+   * Monitor file changes through Everything's date recently changed
    */
-  public monitorFileChanges(callback: FileChangeCallback): Unsubscribe {
-    // CLI doesn't provide good monitoring capabilities
-    // Use a polling approach
-    let running = true;
-    let lastResults: SearchResult[] = [];
+  public monitorFileChanges(
+    callback: FileChangeCallback,
+    options: ChangeFeedOptions = {},
+  ): Unsubscribe {
+    // Poll less often than the other adapters to reduce process spawns
+    return watchChanges(this, { interval: 10000, ...options }, callback);
+  }
 
-    const poll = async () => {
-      if (!running) return;
+  /**
+   * Watch the results of a query for changes
+   */
+  public watch(
+    query: SearchQuery,
+    options: WatchOptions,
+    callback: FileChangeCallback,
+  ): Unsubscribe {
+    return watchQuery(this, query, options, callback);
+  }
+}
 
-      try {
-        // Get all files with a simple query
-        const results = await this.search("*");
+/**
+ * Turns es.exe CSV output into results. Columns are found through the
+ * header row when es.exe prints one, and by position otherwise.
+ */
+class CSVResultReader {
+  private parser = new CSVParser();
+  private columns: Map<SearchField | "fullPath", number>;
+  private requested: Set<SearchField>;
+  private firstRecord = true;
 
-        // Compare with last results to detect changes
-        if (lastResults.length > 0) {
-          const changes = this.detectChanges(lastResults, results);
+  /**
+   * @param columns Fields printed after the full path, in column order
+   * @param requested Fields to include in results
+   */
+  constructor(columns: SearchField[], requested: Set<SearchField>) {
+    this.columns = new Map([
+      ["fullPath", 0],
+      ...columns.map((field, index): [SearchField, number] => [
+        field,
+        index + 1,
+      ]),
+    ]);
+    this.requested = requested;
+  }
 
-          if (changes.length > 0) {
-            callback(changes);
-          }
-        }
+  /**
+   * Parse a chunk of output
+   * @returns The results completed by this chunk
+   */
+  public write(chunk: string): SearchResult[] {
+    return this.read(this.parser.write(chunk));
+  }
 
-        lastResults = results;
-      } catch (error) {
-        // Ignore errors during polling
-      }
+  /**
+   * Finish parsing
+   * @returns The last result, if the output did not end with a line break
+   */
+  public end(): SearchResult[] {
+    return this.read(this.parser.end());
+  }
 
-      // Poll again after a delay
-      setTimeout(poll, 10000); // Longer interval for CLI to reduce load
-    };
+  private read(records: string[][]): SearchResult[] {
+    const results: SearchResult[] = [];
 
-    // Start polling
-    poll();
+    for (const record of records) {
+      if (this.firstRecord) {
+        this.firstRecord = false;
+        if (this.readHeader(record)) {
+          continue;
+        }
+      }
+      results.push(this.toResult(record));
+    }
 
-    // Return function to stop monitoring
-    return () => {
-      running = false;
-    };
+    return results;
   }
 
   /**
-   * Detect changes between two sets of results
+   * Take the column positions from a header row
+   * @returns Whether the record was a header
    */
-  private detectChanges(
-    oldResults: SearchResult[],
-    newResults: SearchResult[],
-  ): Array<{ path: string; type: "added" | "deleted" | "modified" }> {
-    const oldPathMap = new Map<string, SearchResult>();
-    const newPathMap = new Map<string, SearchResult>();
-
-    for (const result of oldResults) {
-      oldPathMap.set(result.fullPath, result);
+  private readHeader(record: string[]): boolean {
+    const titles = record.map(
+      (value) => COLUMN_TITLES[value.trim().toLowerCase()],
+    );
+    if (titles.some((title) => title === undefined)) {
+      return false;
     }
-    for (const result of newResults) {
-      newPathMap.set(result.fullPath, result);
+
+    this.columns = new Map(titles.map((title, index) => [title, index]));
+    return true;
+  }
+
+  private toResult(record: string[]): SearchResult {
+    const column = (name: SearchField | "fullPath") => {
+      const index = this.columns.get(name);
+      return index === undefined ? undefined : (record[index] ?? "");
+    };
+
+    const fullPath = column("fullPath") ?? "";
+
+    // Extract file name and path
+    let fileName = column("name") ?? fullPath;
+    let path = column("path") ?? "";
+
+    const lastBackslashIndex = fullPath.lastIndexOf("\\");
+    if (lastBackslashIndex !== -1) {
+      fileName = fullPath.substring(lastBackslashIndex + 1);
+      path = fullPath.substring(0, lastBackslashIndex);
     }
 
-    const changes = [];
+    // Folders carry FILE_ATTRIBUTE_DIRECTORY; es.exe prints no trailing
+    // separator for them
+    const attributes = parseAttributes(column("attributes") ?? "");
+    const known = attributes !== null;
+
+    // Unrequested columns are left out of the result
+    const result = {
+      name: fileName,
+      path,
+      fullPath,
+      isDirectory: known && !!(attributes & 0x10),
+    } as SearchResult;
+
+    const size = column("size");
+    if (size !== undefined) {
+      // Folders without an indexed size have an empty column
+      result.size = parseNumber(size);
+    }
 
-    // Check for deleted files
-    for (const [path, oldResult] of oldPathMap) {
-      if (!newPathMap.has(path)) {
-        changes.push({ path, type: "deleted" as const });
+    for (const field of [
+      "dateModified",
+      "dateCreated",
+      "dateAccessed",
+      "dateRecentlyChanged",
+    ] as const) {
+      const value = column(field);
+      if (value !== undefined) {
+        result[field] = fileTimeToDate(value);
       }
     }
 
-    // Check for added and modified files
-    for (const [path, newResult] of newPathMap) {
-      const oldResult = oldPathMap.get(path);
-      if (!oldResult) {
-        changes.push({ path, type: "added" as const });
-      } else if (
-        newResult.dateModified.getTime() !== oldResult.dateModified.getTime()
-      ) {
-        changes.push({ path, type: "modified" as const });
-      }
+    if (this.requested.has("attributes")) {
+      result.attributes = attributes;
+      result.isHidden = known ? !!(attributes & 0x2) : null;
+      result.isSystem = known ? !!(attributes & 0x4) : null;
+      result.isReadOnly = known ? !!(attributes & 0x1) : null;
     }
 
-    return changes;
+    const runCount = column("runCount");
+    if (runCount !== undefined) {
+      result.runCount = parseNumber(runCount);
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Parse a numeric column, returning null when es.exe left it empty
+ */
+function parseNumber(value: string): number | null {
+  const number = value.trim() === "" ? Number.NaN : Number(value);
+  return Number.isNaN(number) ? null : number;
+}
+
+/**
+ * Convert the attribute letters printed by es.exe to a bitmask
+ */
+function parseAttributes(letters: string): number | null {
+  if (letters.trim() === "") {
+    return null;
   }
+
+  let attributes = 0;
+  for (const letter of letters.toUpperCase()) {
+    attributes |= ATTRIBUTE_LETTERS[letter] ?? 0;
+  }
+  return attributes;
+}
+
+/**
+ * Options for a single es.exe run
+ */
+interface RunOptions {
+  timeout?: number;
+  maxBuffer?: number;
+  signal?: AbortSignal;
+  /** Receive stdout line by line instead of buffering it */
+  onLine?: (line: string) => void;
+}
+
+/**
+ * Run a process to completion, killing it on timeout, abort or when its
+ * output grows past maxBuffer
+ * @returns Its stdout, unless it was passed to onLine
+ */
+function runProcess(
+  runner: CLIProcessRunner,
+  command: string,
+  args: string[],
+  options: RunOptions,
+): Promise<string> {
+  const { timeout, maxBuffer = Number.POSITIVE_INFINITY, signal } = options;
+  throwIfAborted(signal, "cli");
+
+  return new Promise((resolve, reject) => {
+    const child = runner(command, args);
+    let stdout = "";
+    let stderr = "";
+    let settled = false;
+
+    const finish = (error?: unknown) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+
+      if (error) {
+        child.kill();
+        reject(error);
+      } else {
+        resolve(stdout);
+      }
+    };
+    const onAbort = () => {
+      finish(
+        new EverythingAbortError(undefined, {
+          adapter: "cli",
+          cause: signal?.reason,
+        }),
+      );
+    };
+    const timer =
+      timeout === undefined
+        ? undefined
+        : setTimeout(() => {
+            finish(
+              new EverythingCLIError(
+                `${command} timed out after ${timeout}ms`,
+                { code: "timeout" },
+              ),
+            );
+          }, timeout);
+    const checkBuffer = (output: string) => {
+      if (output.length > maxBuffer) {
+        finish(
+          new EverythingCLIError(
+            `${command} output exceeded maxBuffer of ${maxBuffer} characters`,
+          ),
+        );
+      }
+    };
+    const emitLines = (lines: string[]) => {
+      try {
+        for (const line of lines) {
+          options.onLine?.(line);
+        }
+      } catch (error) {
+        finish(error);
+      }
+    };
+
+    child.stdout?.setEncoding("utf8");
+    child.stdout?.on("data", (chunk: string) => {
+      if (settled) {
+        return;
+      }
+      stdout += chunk;
+
+      // Only the unfinished last line is kept when streaming
+      if (options.onLine) {
+        const lines = stdout.split(/\r?\n/);
+        stdout = lines.pop() ?? "";
+        emitLines(lines);
+      }
+      checkBuffer(stdout);
+    });
+
+    child.stderr?.setEncoding("utf8");
+    child.stderr?.on("data", (chunk: string) => {
+      stderr += chunk;
+      checkBuffer(stderr);
+    });
+
+    child.once("error", (error) => {
+      finish(
+        new EverythingCLIError(`Failed to run ${command}: ${error.message}`, {
+          code:
+            (error as NodeJS.ErrnoException).code === "ENOENT"
+              ? "not-found"
+              : undefined,
+          cause: error,
+        }),
+      );
+    });
+
+    child.once("close", (exitCode) => {
+      if (exitCode !== 0 || stderr.trim()) {
+        finish(
+          new EverythingCLIError(
+            stderr.trim() || `${command} exited with code ${exitCode}`,
+            {
+              code: exitCode === null ? undefined : CLI_EXIT_CODES[exitCode],
+            },
+          ),
+        );
+        return;
+      }
+
+      if (options.onLine && stdout) {
+        emitLines([stdout]);
+        stdout = "";
+      }
+      finish();
+    });
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
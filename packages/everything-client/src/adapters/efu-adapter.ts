@@ -0,0 +1,100 @@
+import { readFile } from "node:fs/promises";
+import type { SearchResult } from "../types";
+import { parseEFU } from "../utils/efu";
+import { EverythingConnectionError, EverythingError } from "../utils/errors";
+import {
+  MemoryAdapter,
+  type MemoryAdapterOptions,
+  type MemoryFileInfo,
+} from "./memory-adapter";
+
+/**
+ * Options for the EFU adapter; give either a file path or its content
+ */
+export interface EFUAdapterOptions extends Omit<MemoryAdapterOptions, "files"> {
+  /** Path of the .efu file, read when the adapter connects */
+  path?: string;
+  /** Content of a file list, used when no path is given */
+  content?: string;
+}
+
+/**
+ * Create a new EFU adapter with the provided options
+ */
+export function createEFUAdapter(options: EFUAdapterOptions): EFUAdapter {
+  return new EFUAdapter(options);
+}
+
+/**
+ * Adapter that evaluates Everything queries offline against an Everything
+ * File List (.efu), such as one exported by a colleague
+ */
+export class EFUAdapter extends MemoryAdapter {
+  private path: string | undefined;
+
+  /**
+   * Create a new EFU adapter
+   */
+  constructor(options: EFUAdapterOptions) {
+    const { path, content, ...memoryOptions } = options;
+    if (path === undefined && content === undefined) {
+      throw new EverythingError(
+        "The EFU adapter needs a file path or content",
+        { adapter: "efu", code: "invalid-parameter" },
+      );
+    }
+
+    super({
+      version: "efu",
+      ...memoryOptions,
+      files: path === undefined && content ? toFiles(parseEFU(content)) : [],
+    });
+    this.path = path;
+  }
+
+  /**
+   * Read the file list (again) and connect to it
+   */
+  public async connect(): Promise<void> {
+    if (this.path !== undefined) {
+      this.setFiles(toFiles(parseEFU(await this.readFileList(this.path))));
+    }
+    await super.connect();
+  }
+
+  /**
+   * Read a file list from disk
+   */
+  private async readFileList(path: string): Promise<string> {
+    try {
+      return await readFile(path, "utf8");
+    } catch (error) {
+      throw new EverythingConnectionError(
+        `Failed to read file list ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        {
+          adapter: "efu",
+          code:
+            (error as NodeJS.ErrnoException).code === "ENOENT"
+              ? "not-found"
+              : undefined,
+          cause: error,
+        },
+      );
+    }
+  }
+}
+
+/**
+ * Index parsed results; unknown metadata stays unknown
+ */
+function toFiles(results: SearchResult[]): MemoryFileInfo[] {
+  return results.map((result) => ({
+    path: result.fullPath,
+    size: result.size ?? undefined,
+    dateModified: result.dateModified ?? undefined,
+    dateCreated: result.dateCreated ?? undefined,
+    dateAccessed: result.dateAccessed ?? undefined,
+    attributes: result.attributes ?? undefined,
+    isDirectory: result.isDirectory,
+  }));
+}
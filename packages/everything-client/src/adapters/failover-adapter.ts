@@ -0,0 +1,324 @@
+import type {
+  AdapterCapabilities,
+  AdapterName,
+  ChangeFeedOptions,
+  ExportOptions,
+  FileChangeCallback,
+  OperationOptions,
+  SearchField,
+  SearchIterator,
+  SearchIteratorOptions,
+  SearchOptions,
+  SearchQuery,
+  SearchResultSet,
+  SearchStatus,
+  SelectedSearchResult,
+  Unsubscribe,
+  WatchOptions,
+} from "../types";
+import { watchChanges } from "../utils/change-feed";
+import { EverythingConnectionError } from "../utils/errors";
+import { exportSearchResults } from "../utils/export";
+import { isRetryableError } from "../utils/retry";
+import { watchQuery } from "../utils/watch";
+import type { BaseAdapter } from "./base-adapter";
+
+/**
+ * An adapter the failover adapter can try, created on first use
+ */
+export interface FailoverCandidate {
+  /** Name reported by getActiveAdapter() */
+  name: AdapterName;
+  /** Create the adapter; throwing or rejecting skips to the next candidate */
+  create: () => BaseAdapter | Promise<BaseAdapter>;
+}
+
+/**
+ * Create a new failover adapter that tries the candidates in order
+ */
+export function createFailoverAdapter(
+  candidates: FailoverCandidate[],
+): FailoverAdapter {
+  return new FailoverAdapter(candidates);
+}
+
+/**
+ * Adapter that connects through the first candidate that works, remembers
+ * it, and probes the chain again when an operation cannot reach Everything
+ */
+export class FailoverAdapter implements BaseAdapter {
+  private candidates: FailoverCandidate[];
+  private instances = new Map<AdapterName, BaseAdapter>();
+  private active: { name: AdapterName; adapter: BaseAdapter } | null = null;
+  private probing: Promise<BaseAdapter> | null = null;
+
+  /**
+   * Create a new failover adapter
+   */
+  constructor(candidates: FailoverCandidate[]) {
+    if (candidates.length === 0) {
+      throw new EverythingConnectionError(
+        "Failover adapter requires at least one candidate",
+        { code: "invalid-parameter" },
+      );
+    }
+
+    this.candidates = candidates;
+  }
+
+  /**
+   * Name of the adapter in use, or null before one has connected
+   */
+  public getActiveAdapter(): AdapterName | null {
+    return this.active?.name ?? null;
+  }
+
+  /**
+   * Connect through the first candidate that works
+   */
+  public async connect(): Promise<void> {
+    await this.resolve();
+  }
+
+  /**
+   * Disconnect the active adapter
+   */
+  public disconnect(): void {
+    this.active?.adapter.disconnect();
+    this.active = null;
+  }
+
+  /**
+   * Check if an adapter is connected
+   */
+  public isConnected(): boolean {
+    return this.active?.adapter.isConnected() ?? false;
+  }
+
+  /**
+   * Describe what the active adapter supports, connecting first
+   */
+  public async getCapabilities(): Promise<AdapterCapabilities> {
+    return this.run((adapter) => adapter.getCapabilities());
+  }
+
+  /**
+   * Search for files and folders
+   */
+  public async search<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: SearchOptions<F> = {},
+  ): Promise<SearchResultSet<SelectedSearchResult<F>>> {
+    return this.run((adapter) => adapter.search(query, options));
+  }
+
+  /**
+   * Iterate over every result of a search, fetching pages on demand.
+   * The adapter is chosen when the first page is requested.
+   */
+  public searchIterator<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: SearchIteratorOptions<F> = {},
+  ): SearchIterator<SelectedSearchResult<F>> {
+    return new DeferredSearchIterator(() =>
+      this.run(async (adapter) => {
+        const iterator = adapter.searchIterator(query, options);
+        const first = await iterator.next();
+        return { iterator, first };
+      }),
+    );
+  }
+
+  /**
+   * Export search results through the active adapter. Unlike other
+   * operations, a failed export is not repeated on another adapter.
+   */
+  public async exportResults<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: ExportOptions<F>,
+  ): Promise<number> {
+    const adapter = await this.resolve();
+    return adapter.exportResults
+      ? adapter.exportResults(query, options)
+      : exportSearchResults(adapter.searchIterator(query, options), options);
+  }
+
+  /**
+   * Get the active adapter, connecting first
+   */
+  public async resolveAdapter(): Promise<BaseAdapter> {
+    const adapter = await this.resolve();
+    return adapter.resolveAdapter ? adapter.resolveAdapter() : adapter;
+  }
+
+  /**
+   * Get the Everything version
+   */
+  public async getVersion(options?: OperationOptions): Promise<string> {
+    return this.run((adapter) => adapter.getVersion(options));
+  }
+
+  /**
+   * Rebuild the Everything index
+   */
+  public async rebuildIndex(options?: OperationOptions): Promise<void> {
+    return this.run((adapter) => adapter.rebuildIndex(options));
+  }
+
+  /**
+   * Get the current search status
+   */
+  public async getSearchStatus(
+    options?: OperationOptions,
+  ): Promise<SearchStatus> {
+    return this.run((adapter) => adapter.getSearchStatus(options));
+  }
+
+  /**
+   * Monitor file changes through whichever adapter is active
+   */
+  public monitorFileChanges(
+    callback: FileChangeCallback,
+    options: ChangeFeedOptions = {},
+  ): Unsubscribe {
+    return watchChanges(this, { interval: 5000, ...options }, callback);
+  }
+
+  /**
+   * Watch the results of a query for changes
+   */
+  public watch(
+    query: SearchQuery,
+    options: WatchOptions,
+    callback: FileChangeCallback,
+  ): Unsubscribe {
+    return watchQuery(this, query, options, callback);
+  }
+
+  /**
+   * Run an operation on the active adapter. If it fails to reach
+   * Everything, probe the rest of the chain and retry once on whichever
+   * adapter connects.
+   */
+  private async run<T>(operation: (adapter: BaseAdapter) => Promise<T>) {
+    const adapter = await this.resolve();
+
+    try {
+      return await operation(adapter);
+    } catch (error) {
+      // Errors a healthy backend reports, such as invalid queries,
+      // unsupported requests and cancellations, are not worth switching for
+      if (
+        !(error instanceof EverythingConnectionError) &&
+        !isRetryableError(error)
+      ) {
+        throw error;
+      }
+
+      if (this.active?.adapter === adapter) {
+        this.disconnect();
+      }
+
+      const next = await this.resolve(adapter).catch(() => null);
+      if (!next) {
+        throw error;
+      }
+      return operation(next);
+    }
+  }
+
+  /**
+   * Get the active adapter, probing the chain if there is none
+   * @param failed Adapter that just failed, skipped by the probe
+   */
+  private async resolve(failed?: BaseAdapter): Promise<BaseAdapter> {
+    if (this.active) {
+      return this.active.adapter;
+    }
+
+    // Concurrent callers share a single probe
+    this.probing ??= this.probe(failed).finally(() => {
+      this.probing = null;
+    });
+    return this.probing;
+  }
+
+  private async probe(failed?: BaseAdapter): Promise<BaseAdapter> {
+    const failures: string[] = [];
+
+    for (const candidate of this.candidates) {
+      let adapter = this.instances.get(candidate.name);
+      if (adapter && adapter === failed) {
+        continue;
+      }
+
+      try {
+        if (!adapter) {
+          adapter = await candidate.create();
+          this.instances.set(candidate.name, adapter);
+        }
+
+        await adapter.connect();
+        this.active = { name: candidate.name, adapter };
+        return adapter;
+      } catch (error) {
+        failures.push(
+          `${candidate.name}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    throw new EverythingConnectionError(
+      `No adapter could connect to Everything (${failures.join("; ")})`,
+    );
+  }
+}
+
+/**
+ * Search iterator that starts the underlying search on the first call
+ */
+export class DeferredSearchIterator<T> implements SearchIterator<T> {
+  private start: () => Promise<{
+    iterator: SearchIterator<T>;
+    first: IteratorResult<T, undefined>;
+  }>;
+  private iterator: SearchIterator<T> | null = null;
+  private started: Promise<IteratorResult<T, undefined>> | null = null;
+
+  constructor(
+    start: () => Promise<{
+      iterator: SearchIterator<T>;
+      first: IteratorResult<T, undefined>;
+    }>,
+  ) {
+    this.start = start;
+  }
+
+  public get totalResults(): number | undefined {
+    return this.iterator?.totalResults;
+  }
+
+  public async next(): Promise<IteratorResult<T, undefined>> {
+    if (!this.started) {
+      this.started = this.start().then(({ iterator, first }) => {
+        this.iterator = iterator;
+        return first;
+      });
+      return this.started;
+    }
+
+    await this.started;
+    return (this.iterator as SearchIterator<T>).next();
+  }
+
+  public async return(): Promise<IteratorResult<T, undefined>> {
+    if (this.started) {
+      await this.started.catch(() => undefined);
+    }
+    return this.iterator?.return?.() ?? { done: true, value: undefined };
+  }
+
+  public [Symbol.asyncIterator](): this {
+    return this;
+  }
+}
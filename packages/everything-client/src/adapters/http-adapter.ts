@@ -1,15 +1,42 @@
-import { type FetchOptions, ofetch } from "ofetch";
+import { resolveQuery } from "../query";
 import type {
+  AdapterCapabilities,
+  ChangeFeedOptions,
   FileChangeCallback,
+  OperationOptions,
+  SearchField,
+  SearchIterator,
+  SearchIteratorOptions,
   SearchOptions,
+  SearchQuery,
   SearchResult,
+  SearchResultSet,
   SearchStatus,
+  SelectedSearchResult,
   Unsubscribe,
+  WatchOptions,
 } from "../types";
+import { throwIfAborted, withTimeout } from "../utils/abort";
+import { SORT_KEYS, assertSearchSupported } from "../utils/capabilities";
+import { watchChanges } from "../utils/change-feed";
 import {
+  EverythingAbortError,
   EverythingConnectionError,
+  EverythingError,
+  type EverythingErrorCode,
+  EverythingHTTPError,
   EverythingSearchError,
+  EverythingUnsupportedError,
+  httpStatusCode,
 } from "../utils/errors";
+import { SEARCH_FIELDS, resolveFields } from "../utils/fields";
+import { fileTimeToDate } from "../utils/filetime";
+import {
+  type SearchPage,
+  createSearchIterator,
+  fetchSearchResultSet,
+} from "../utils/pagination";
+import { watchQuery } from "../utils/watch";
 import type { BaseAdapter } from "./base-adapter";
 
 /**
@@ -24,6 +51,8 @@ export interface HTTPAdapterOptions {
   password?: string;
   /** Timeout in milliseconds for requests */
   timeout?: number;
+  /** Throw for search options the HTTP server would ignore */
+  strict?: boolean;
 }
 
 /**
@@ -39,10 +68,69 @@ interface SearchResponse {
     date_modified?: string;
     date_created?: string;
     date_accessed?: string;
-    attributes?: number;
+    attributes?: string | number;
+    run_count?: string | number;
+    date_recently_changed?: string;
   }>;
 }
 
+/**
+ * What the adapter can do through the Everything HTTP server, which has no
+ * way to report its version
+ */
+const CAPABILITIES: AdapterCapabilities = {
+  options: [
+    "matchCase",
+    "matchPath",
+    "matchWholeWord",
+    "regex",
+    "maxResults",
+    "offset",
+    "sortBy",
+    "sortOrder",
+  ],
+  sortKeys: SORT_KEYS,
+  fields: SEARCH_FIELDS,
+  operations: [
+    "rebuildIndex",
+    "getSearchStatus",
+    "monitorFileChanges",
+    "watch",
+  ],
+};
+
+/**
+ * Everything HTTP server column flags for each search field
+ */
+const COLUMN_PARAMS: Partial<Record<SearchField, string>> = {
+  path: "path_column",
+  size: "size_column",
+  dateModified: "date_modified_column",
+  dateCreated: "date_created_column",
+  dateAccessed: "date_accessed_column",
+  attributes: "attributes_column",
+  runCount: "run_count_column",
+  dateRecentlyChanged: "date_recently_changed_column",
+};
+
+/**
+ * Everything HTTP server sort names for each sort option
+ */
+const SORT_NAMES: Record<NonNullable<SearchOptions["sortBy"]>, string> = {
+  name: "name",
+  path: "path",
+  size: "size",
+  extension: "extension",
+  "type-name": "type",
+  date: "date_modified",
+  "date-created": "date_created",
+  "date-accessed": "date_accessed",
+  attributes: "attributes",
+  "run-count": "run_count",
+  "date-recently-changed": "date_recently_changed",
+  "date-run": "date_run",
+};
+
 /**
  * Default adapter options
  */
@@ -72,7 +160,7 @@ export class HTTPAdapter implements BaseAdapter {
   private options: HTTPAdapterOptions;
   private connected = false;
   private connecting = false;
-  private currentQuery?: string;
+  private lastTotal = 0;
 
   /**
    * Create a new HTTP adapter
@@ -90,65 +178,83 @@ export class HTTPAdapter implements BaseAdapter {
     }
 
     if (this.connecting) {
-      throw new EverythingConnectionError("Connection already in progress");
+      throw new EverythingConnectionError("Connection already in progress", {
+        adapter: "http",
+      });
     }
 
     this.connecting = true;
 
     try {
       // Test connection by making a simple search request
-      const url = new URL("?j=1&s=*", this.options.serverUrl).toString();
-      await ofetch(url, {
-        responseType: "json",
-        timeout: this.options.timeout,
-      });
+      await this.fetchJSON("?j=1&s=*");
 
       this.connected = true;
     } catch (error) {
       throw new EverythingConnectionError(
         `Failed to connect to Everything HTTP server: ${error instanceof Error ? error.message : String(error)}`,
+        { adapter: "http", code: fetchErrorCode(error), cause: error },
       );
     } finally {
       this.connecting = false;
     }
   }
 
+  /**
+   * Build the HTTP Basic authentication header, if credentials are set
+   */
+  private authHeaders(): Record<string, string> {
+    if (!this.options.username || !this.options.password) {
+      return {};
+    }
+
+    return {
+      Authorization: `Basic ${encodeBase64(
+        `${this.options.username}:${this.options.password}`,
+      )}`,
+    };
+  }
+
   /**
    * Make an HTTP request to the Everything HTTP server
    */
   private async makeRequest<T>(
     path: string,
-    options: FetchOptions<"json"> = {},
+    options: OperationOptions = {},
   ): Promise<T> {
     if (!this.connected) {
       await this.connect();
     }
 
-    const url = new URL(path, this.options.serverUrl).toString();
-
-    const fetchOptions: FetchOptions<"json"> = {
-      ...options,
-      responseType: "json",
-      headers: {
-        ...options.headers,
-        ...(this.options.username && this.options.password
-          ? {
-              Authorization: `Basic ${Buffer.from(
-                `${this.options.username}:${this.options.password}`,
-              ).toString("base64")}`,
-            }
-          : {}),
-      },
-      timeout: this.options.timeout,
-    };
-
     try {
-      return await ofetch<T>(url, fetchOptions);
+      return await this.fetchJSON<T>(path, options.signal);
     } catch (error) {
+      throwIfAborted(options.signal, "http");
       throw new EverythingConnectionError(
         `HTTP request failed: ${error instanceof Error ? error.message : String(error)}`,
+        { adapter: "http", code: fetchErrorCode(error), cause: error },
+      );
+    }
+  }
+
+  /**
+   * Fetch a JSON response from the server with the Fetch API, which works
+   * in Node.js and browsers alike
+   */
+  private async fetchJSON<T>(path: string, signal?: AbortSignal): Promise<T> {
+    const response = await fetch(new URL(path, this.options.serverUrl), {
+      headers: { Accept: "application/json", ...this.authHeaders() },
+      signal: withTimeout(signal, this.options.timeout),
+    });
+
+    if (!response.ok) {
+      throw new EverythingHTTPError(
+        `${response.status} ${response.statusText}`.trim(),
+        { code: httpStatusCode(response.status) },
       );
     }
+
+    return (await response.json()) as T;
   }
 
   /**
@@ -165,19 +271,59 @@ export class HTTPAdapter implements BaseAdapter {
     return this.connected;
   }
 
+  /**
+   * Describe what the adapter supports
+   */
+  public async getCapabilities(): Promise<AdapterCapabilities> {
+    return CAPABILITIES;
+  }
+
   /**
    * Search for files and folders
    */
-  public async search(
+  public async search<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: SearchOptions<F> = {},
+  ): Promise<SearchResultSet<SelectedSearchResult<F>>> {
+    const queryString = resolveQuery(query);
+    return fetchSearchResultSet(
+      (pageOptions) => this.searchPage(queryString, pageOptions),
+      queryString,
+      options,
+    );
+  }
+
+  /**
+   * Iterate over every result of a search, fetching pages on demand
+   */
+  public searchIterator<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: SearchIteratorOptions<F> = {},
+  ): SearchIterator<SelectedSearchResult<F>> {
+    const queryString = resolveQuery(query);
+    return createSearchIterator(
+      (pageOptions) => this.searchPage(queryString, pageOptions),
+      options,
+    );
+  }
+
+  /**
+   * Request one page of results along with the total count
+   */
+  private async searchPage(
     query: string,
-    options: SearchOptions = {},
-  ): Promise<SearchResult[]> {
+    options: SearchOptions,
+  ): Promise<SearchPage> {
+    if (this.options.strict) {
+      assertSearchSupported("http", CAPABILITIES, options);
+    }
+
+    throwIfAborted(options.signal, "http");
+
     if (!this.connected) {
       await this.connect();
     }
 
-    this.currentQuery = query;
-
     try {
       // Build query parameters according to Everything HTTP API format
       const params = new URLSearchParams();
@@ -187,15 +333,20 @@ export class HTTPAdapter implements BaseAdapter {
       params.append("j", "1"); // JSON output
       params.append("i", options.matchCase ? "1" : "0"); // Case sensitive
       params.append("w", options.matchWholeWord ? "1" : "0"); // Whole word
-      params.append("p", "1"); // Path
+      params.append("p", options.matchPath ? "1" : "0"); // Match path
       params.append("r", options.regex ? "1" : "0"); // Regex
       params.append("m", options.matchCase ? "1" : "0"); // Match case
-      params.append("path_column", "1");
-      params.append("size_column", "1");
-      params.append("date_modified_column", "1");
-      params.append("date_created_column", "1");
-      params.append("attributes_column", "1");
-      params.append("sort", options.sortBy || "name");
+
+      // Only request the columns we are going to read
+      const fields = resolveFields(options);
+      for (const field of fields) {
+        const column = COLUMN_PARAMS[field];
+        if (column) {
+          params.append(column, "1");
+        }
+      }
+
+      params.append("sort", SORT_NAMES[options.sortBy ?? "name"]);
       params.append("ascending", options.sortOrder === "asc" ? "1" : "0");
 
       // Override default parameters based on options
@@ -209,13 +360,24 @@ export class HTTPAdapter implements BaseAdapter {
       // Make the request
       const data = await this.makeRequest<SearchResponse>(
         `?${params.toString()}`,
+        { signal: options.signal },
       );
 
       // Parse the results
-      return this.parseSearchResults(data);
+      const totalResults = data.totalResults || 0;
+      this.lastTotal = totalResults;
+      return {
+        items: this.parseSearchResults(data, fields),
+        totalResults,
+        availableFields: [...fields],
+      };
     } catch (error) {
+      if (error instanceof EverythingAbortError) {
+        throw error;
+      }
       throw new EverythingSearchError(
         `Search failed: ${error instanceof Error ? error.message : String(error)}`,
+        { adapter: "http", cause: error },
       );
     }
   }
@@ -223,49 +385,57 @@ export class HTTPAdapter implements BaseAdapter {
   /**
    * Parse search results from the Everything HTTP API
    */
-  private parseSearchResults(data: SearchResponse): SearchResult[] {
+  private parseSearchResults(
+    data: SearchResponse,
+    fields: Set<SearchField>,
+  ): SearchResult[] {
     if (!Array.isArray(data.results)) {
       return [];
     }
 
     return data.results.map((item) => {
-      // Parse size, handle empty string case
-      const size = item.size === "" ? 0 : Number(item.size);
-
-      // Parse dates from Everything's timestamp format
-      const parseDate = (timestamp?: string) => {
-        if (!timestamp) return new Date();
-        // Everything uses 100-nanosecond intervals since January 1, 1601
-        const intervals = BigInt(timestamp);
-        const milliseconds = Number(intervals / BigInt(10000));
-        return new Date(milliseconds);
-      };
-
-      const dateModified = parseDate(item.date_modified);
-      const dateCreated = parseDate(item.date_created);
-      const dateAccessed = parseDate(item.date_accessed);
-
-      // Parse file attributes
-      const attributes = item.attributes || 0;
-      const isDirectory = item.type === "folder";
-      const isHidden = (attributes & 0x2) !== 0;
-      const isSystem = (attributes & 0x4) !== 0;
-      const isReadOnly = (attributes & 0x1) !== 0;
-
-      return {
+      // Unrequested columns are left out of the result
+      const result = {
         name: item.name || "",
         path: item.path || "",
         fullPath: item.path ? `${item.path}\\${item.name}` : item.name,
-        size,
-        dateModified,
-        dateCreated,
-        dateAccessed,
-        attributes,
-        isDirectory,
-        isHidden,
-        isSystem,
-        isReadOnly,
-      };
+        isDirectory: item.type === "folder",
+      } as SearchResult;
+
+      if (fields.has("size")) {
+        // Folders without an indexed size come back as an empty string
+        result.size = parseNumber(item.size);
+      }
+
+      // Dates are FILETIME strings
+      if (fields.has("dateModified")) {
+        result.dateModified = fileTimeToDate(item.date_modified);
+      }
+      if (fields.has("dateCreated")) {
+        result.dateCreated = fileTimeToDate(item.date_created);
+      }
+      if (fields.has("dateAccessed")) {
+        result.dateAccessed = fileTimeToDate(item.date_accessed);
+      }
+      if (fields.has("dateRecentlyChanged")) {
+        result.dateRecentlyChanged = fileTimeToDate(item.date_recently_changed);
+      }
+
+      if (fields.has("attributes")) {
+        // Parse file attributes
+        const attributes = parseNumber(item.attributes);
+        const known = attributes !== null;
+        result.attributes = attributes;
+        result.isHidden = known ? (attributes & 0x2) !== 0 : null;
+        result.isSystem = known ? (attributes & 0x4) !== 0 : null;
+        result.isReadOnly = known ? (attributes & 0x1) !== 0 : null;
+      }
+
+      if (fields.has("runCount")) {
+        result.runCount = parseNumber(item.run_count);
+      }
+
+      return result;
     });
   }
 
@@ -274,104 +444,106 @@ export class HTTPAdapter implements BaseAdapter {
    */
   public async getVersion(): Promise<string> {
     // Everything HTTP server doesn't provide version information
-    return "Unknown Version";
+    throw new EverythingUnsupportedError(
+      "HTTP adapter cannot report the Everything version",
+      "getVersion",
+      { adapter: "http" },
+    );
   }
 
   /**
    * Rebuild the Everything index
    */
-  public async rebuildIndex(): Promise<void> {
-    await this.makeRequest("?j=1&rebuild=1");
+  public async rebuildIndex(options: OperationOptions = {}): Promise<void> {
+    await this.makeRequest("?j=1&rebuild=1", { signal: options.signal });
   }
 
   /**
-   * Get the current search status
+   * Get the status of the last search made through the adapter. The
+   * server keeps no search state, so no request is made.
    */
-  public async getSearchStatus(): Promise<SearchStatus> {
+  public async getSearchStatus(
+    options: OperationOptions = {},
+  ): Promise<SearchStatus> {
+    throwIfAborted(options.signal, "http");
+
     if (!this.connected) {
       await this.connect();
     }
 
-    try {
-      // Build query parameters according to Everything HTTP API format
-      const params = new URLSearchParams();
-      params.append("s", this.currentQuery || "*"); // Search query
-      params.append("j", "1"); // JSON output
-      params.append("count", "1"); // Only get count
-
-      // Make the request
-      const data = await this.makeRequest<SearchResponse>(
-        `?${params.toString()}`,
-      );
-
-      return {
-        totalResults: data.totalResults || 0,
-        indexingComplete: true,
-        percentComplete: 100,
-      };
-    } catch (error) {
-      throw new EverythingSearchError(
-        `Failed to get search status: ${error instanceof Error ? error.message : String(error)}`,
-      );
-    }
+    return {
+      totalResults: this.lastTotal,
+      indexingComplete: true,
+      percentComplete: 100,
+    };
   }
 
   /**
-   * Monitor file changes
+   * Monitor file changes through Everything's date recently changed
    */
-  public monitorFileChanges(callback: FileChangeCallback): Unsubscribe {
-    let lastResults: SearchResult[] = [];
-    const interval = setInterval(async () => {
-      try {
-        const newResults = await this.search("*");
-        const changes = this.detectChanges(lastResults, newResults);
-        if (changes.length > 0) {
-          callback(changes);
-        }
-        lastResults = newResults;
-      } catch (error) {
-        console.error("Error monitoring file changes:", error);
-      }
-    }, 1000);
-
-    return () => clearInterval(interval);
+  public monitorFileChanges(
+    callback: FileChangeCallback,
+    options: ChangeFeedOptions = {},
+  ): Unsubscribe {
+    return watchChanges(
+      this,
+      {
+        interval: 1000,
+        onError: (error) => {
+          console.error("Error monitoring file changes:", error);
+        },
+        ...options,
+      },
+      callback,
+    );
   }
 
-  private detectChanges(
-    oldResults: SearchResult[],
-    newResults: SearchResult[],
-  ): Array<{ path: string; type: "added" | "deleted" | "modified" }> {
-    const oldPathMap = new Map<string, SearchResult>();
-    const newPathMap = new Map<string, SearchResult>();
-
-    for (const result of oldResults) {
-      oldPathMap.set(result.fullPath, result);
-    }
-    for (const result of newResults) {
-      newPathMap.set(result.fullPath, result);
-    }
+  /**
+   * Watch the results of a query for changes
+   */
+  public watch(
+    query: SearchQuery,
+    options: WatchOptions,
+    callback: FileChangeCallback,
+  ): Unsubscribe {
+    return watchQuery(this, query, options, callback);
+  }
+}
 
-    const changes = [];
+/**
+ * Parse a numeric column, returning null when the server left it empty
+ */
+function parseNumber(value?: string | number): number | null {
+  if (value === undefined || value === "") {
+    return null;
+  }
 
-    // Check for deleted files
-    for (const [path, oldResult] of oldPathMap) {
-      if (!newPathMap.has(path)) {
-        changes.push({ path, type: "deleted" as const });
-      }
-    }
+  const number = Number(value);
+  return Number.isNaN(number) ? null : number;
+}
 
-    // Check for added and modified files
-    for (const [path, newResult] of newPathMap) {
-      const oldResult = oldPathMap.get(path);
-      if (!oldResult) {
-        changes.push({ path, type: "added" as const });
-      } else if (
-        newResult.dateModified.getTime() !== oldResult.dateModified.getTime()
-      ) {
-        changes.push({ path, type: "modified" as const });
-      }
-    }
+/**
+ * Base64-encode a string as UTF-8, using only Web APIs
+ */
+function encodeBase64(value: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(value)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
 
-    return changes;
+/**
+ * Error code for a failed request, from the response status or from the
+ * request timing out or getting no response
+ */
+function fetchErrorCode(error: unknown): EverythingErrorCode {
+  if (error instanceof EverythingError) {
+    return error.code;
+  }
+  // A timed out signal rejects fetch with its TimeoutError reason
+  if ((error as { name?: unknown } | null)?.name === "TimeoutError") {
+    return "timeout";
   }
+  return "connection-failed";
 }
@@ -2,8 +2,21 @@ import type { BaseAdapter } from "./base-adapter";
 import {
   CLIAdapter,
   type CLIAdapterOptions,
+  type CLIProcess,
+  type CLIProcessRunner,
+  buildCLIArgs,
   createCLIAdapter,
 } from "./cli-adapter";
+import {
+  EFUAdapter,
+  type EFUAdapterOptions,
+  createEFUAdapter,
+} from "./efu-adapter";
+import {
+  FailoverAdapter,
+  type FailoverCandidate,
+  createFailoverAdapter,
+} from "./failover-adapter";
 import {
   HTTPAdapter,
   type HTTPAdapterOptions,
@@ -14,8 +27,57 @@ import {
   type IPCAdapterOptions,
   createIPCAdapter,
 } from "./ipc-adapter";
+import {
+  type EverythingLib,
+  type IPCRequest,
+  type IPCResponses,
+  type IPCResultPage,
+  decodeIPCResultPage,
+  runIPCRequest,
+  startIPCWorker,
+} from "./ipc-sdk";
+import { IPCWorkerHost, type IPCWorkerHostOptions } from "./ipc-worker-host";
+import {
+  MemoryAdapter,
+  type MemoryAdapterOptions,
+  type MemoryFile,
+  type MemoryFileInfo,
+  createMemoryAdapter,
+} from "./memory-adapter";
 
 export type { BaseAdapter };
-export { CLIAdapter, IPCAdapter, HTTPAdapter };
-export type { CLIAdapterOptions, IPCAdapterOptions, HTTPAdapterOptions };
-export { createCLIAdapter, createIPCAdapter, createHTTPAdapter };
+export {
+  CLIAdapter,
+  IPCAdapter,
+  HTTPAdapter,
+  MemoryAdapter,
+  EFUAdapter,
+  FailoverAdapter,
+};
+export { IPCWorkerHost, decodeIPCResultPage, runIPCRequest, startIPCWorker };
+export { buildCLIArgs };
+export type {
+  CLIAdapterOptions,
+  CLIProcess,
+  CLIProcessRunner,
+  EFUAdapterOptions,
+  EverythingLib,
+  FailoverCandidate,
+  IPCAdapterOptions,
+  IPCRequest,
+  IPCResponses,
+  IPCResultPage,
+  IPCWorkerHostOptions,
+  HTTPAdapterOptions,
+  MemoryAdapterOptions,
+  MemoryFile,
+  MemoryFileInfo,
+};
+export {
+  createCLIAdapter,
+  createIPCAdapter,
+  createHTTPAdapter,
+  createMemoryAdapter,
+  createEFUAdapter,
+  createFailoverAdapter,
+};
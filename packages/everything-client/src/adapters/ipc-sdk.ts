@@ -0,0 +1,586 @@
+import type { MessagePort } from "node:worker_threads";
+import type koffi from "koffi";
+import type {
+  SearchField,
+  SearchOptions,
+  SearchResult,
+  SearchSortKey,
+} from "../types";
+import {
+  EverythingError,
+  EverythingIPCError,
+  SDK_ERROR_CODES,
+} from "../utils/errors";
+import { fileTimeToDate } from "../utils/filetime";
+
+/**
+ * Out-parameter for the SDK functions that write a 64-bit value
+ */
+type UInt64Out = [number | bigint | null];
+
+/**
+ * Attribute value the SDK reports when the attributes are unknown
+ */
+const INVALID_FILE_ATTRIBUTES = 0xffffffff;
+
+/**
+ * Everything_SetRequestFlags bits for each search field
+ */
+const REQUEST_FLAGS: Record<SearchField, number> = {
+  name: 0x1, // EVERYTHING_REQUEST_FILE_NAME
+  path: 0x2, // EVERYTHING_REQUEST_PATH
+  size: 0x10, // EVERYTHING_REQUEST_SIZE
+  dateCreated: 0x20, // EVERYTHING_REQUEST_DATE_CREATED
+  dateModified: 0x40, // EVERYTHING_REQUEST_DATE_MODIFIED
+  dateAccessed: 0x80, // EVERYTHING_REQUEST_DATE_ACCESSED
+  attributes: 0x100, // EVERYTHING_REQUEST_ATTRIBUTES
+  runCount: 0x400, // EVERYTHING_REQUEST_RUN_COUNT
+  dateRecentlyChanged: 0x1000, // EVERYTHING_REQUEST_DATE_RECENTLY_CHANGED
+};
+
+/**
+ * Everything_SetSort values for each sort key in ascending order; the
+ * descending value is one higher
+ */
+const SORT_VALUES: Record<SearchSortKey, number> = {
+  name: 1, // EVERYTHING_SORT_NAME_ASCENDING
+  path: 3, // EVERYTHING_SORT_PATH_ASCENDING
+  size: 5, // EVERYTHING_SORT_SIZE_ASCENDING
+  extension: 7, // EVERYTHING_SORT_EXTENSION_ASCENDING
+  "type-name": 9, // EVERYTHING_SORT_TYPE_NAME_ASCENDING
+  "date-created": 11, // EVERYTHING_SORT_DATE_CREATED_ASCENDING
+  date: 13, // EVERYTHING_SORT_DATE_MODIFIED_ASCENDING
+  attributes: 15, // EVERYTHING_SORT_ATTRIBUTES_ASCENDING
+  "run-count": 19, // EVERYTHING_SORT_RUN_COUNT_ASCENDING
+  "date-recently-changed": 21, // EVERYTHING_SORT_DATE_RECENTLY_CHANGED_ASCENDING
+  "date-accessed": 23, // EVERYTHING_SORT_DATE_ACCESSED_ASCENDING
+  "date-run": 25, // EVERYTHING_SORT_DATE_RUN_ASCENDING
+};
+
+/**
+ * The Everything SDK functions used by the IPC adapter. Anything with these
+ * functions can stand in for the DLL, e.g. a fake library in tests.
+ */
+export interface EverythingLib {
+  Everything_SetSearchW: (query: string) => void;
+  Everything_SetMatchPath: (enable: boolean) => void;
+  Everything_SetMatchCase: (enable: boolean) => void;
+  Everything_SetMatchWholeWord: (enable: boolean) => void;
+  Everything_SetRegex: (enable: boolean) => void;
+  Everything_SetMax: (max: number) => void;
+  Everything_SetOffset: (offset: number) => void;
+  Everything_SetSort: (sort: number) => void;
+  Everything_SetRequestFlags: (flags: number) => void;
+  Everything_QueryW: () => boolean;
+  Everything_GetNumResults: () => number;
+  Everything_GetResultFileNameW: (index: number) => string;
+  Everything_GetResultPathW: (index: number) => string;
+  Everything_GetResultSize: (index: number, size: UInt64Out) => boolean;
+  Everything_GetResultDateModified: (
+    index: number,
+    fileTime: UInt64Out,
+  ) => boolean;
+  Everything_GetResultDateCreated: (
+    index: number,
+    fileTime: UInt64Out,
+  ) => boolean;
+  Everything_GetResultDateAccessed: (
+    index: number,
+    fileTime: UInt64Out,
+  ) => boolean;
+  Everything_GetResultAttributes: (index: number) => number;
+  Everything_GetResultRunCount: (index: number) => number;
+  Everything_GetResultDateRecentlyChanged: (
+    index: number,
+    fileTime: UInt64Out,
+  ) => boolean;
+  Everything_IsFolderResult: (index: number) => boolean;
+  Everything_GetLastError: () => number;
+  Everything_GetMajorVersion: () => number;
+  Everything_GetMinorVersion: () => number;
+  Everything_GetRevision: () => number;
+  Everything_GetBuildNumber: () => number;
+  Everything_RebuildDB: () => void;
+  Everything_GetTotResults: () => number;
+  Everything_IsDBLoaded: () => boolean;
+  Everything_IsAdmin: () => boolean;
+  Everything_IsAppData: () => boolean;
+  Everything_Reset: () => void;
+}
+
+/**
+ * Search options sent with a query. Unlike SearchOptions these can be
+ * posted to a worker.
+ */
+export interface IPCQueryOptions
+  extends Pick<
+    SearchOptions,
+    | "matchCase"
+    | "matchPath"
+    | "matchWholeWord"
+    | "regex"
+    | "maxResults"
+    | "offset"
+    | "sortBy"
+    | "sortOrder"
+  > {
+  /** Fields to read, always including the name and path */
+  fields: SearchField[];
+}
+
+/**
+ * A request for the SDK
+ */
+export type IPCRequest =
+  | { type: "open" }
+  | { type: "query"; query: string; options: IPCQueryOptions }
+  | { type: "version" }
+  | { type: "rebuild" }
+  | { type: "status" };
+
+/**
+ * The value each request type resolves to
+ */
+export interface IPCResponses {
+  open: undefined;
+  query: IPCResultPage;
+  version: string;
+  rebuild: undefined;
+  /** Whether the database is loaded */
+  status: boolean;
+}
+
+/**
+ * Result fields stored as numbers
+ */
+type NumericField = Exclude<SearchField, "name" | "path">;
+
+/**
+ * A page of results in columns, so the numeric ones can be transferred
+ * from a worker without copying. Missing values are NaN.
+ */
+export interface IPCResultPage {
+  totalResults: number;
+  fields: SearchField[];
+  names: string[];
+  paths: string[];
+  /** 1 for folders, 0 for files */
+  directories: Uint8Array;
+  /** One column per requested numeric field; dates are in milliseconds */
+  columns: Partial<Record<NumericField, Float64Array>>;
+}
+
+/**
+ * workerData of the bundled IPC worker
+ */
+export interface IPCWorkerData {
+  dllPath: string;
+}
+
+/**
+ * Message posted to an IPC worker
+ */
+export interface IPCWorkerRequest {
+  id: number;
+  request: IPCRequest;
+}
+
+/**
+ * Message posted back by an IPC worker
+ */
+export type IPCWorkerResponse =
+  | { id: number; ok: true; value: IPCResponses[IPCRequest["type"]] }
+  | { id: number; ok: false; error: { message: string; code?: string } };
+
+/**
+ * Import koffi, an optional dependency only the IPC adapter needs
+ */
+async function importKoffi(): Promise<typeof koffi> {
+  try {
+    return (await import("koffi")).default;
+  } catch (error) {
+    throw new EverythingIPCError(
+      'The IPC adapter needs the optional "koffi" package, which is not installed',
+      { code: "not-found", cause: error },
+    );
+  }
+}
+
+/**
+ * Load the Everything DLL and bind the SDK functions
+ * @throws EverythingIPCError with code "unsupported" outside Windows
+ */
+export async function loadEverythingLibrary(
+  dllPath: string,
+): Promise<EverythingLib> {
+  if (process.platform !== "win32") {
+    throw new EverythingIPCError("IPC adapter is only available on Windows", {
+      code: "unsupported",
+    });
+  }
+
+  const ffi = await importKoffi();
+
+  let lib: ReturnType<typeof koffi.load>;
+  try {
+    lib = ffi.load(dllPath);
+  } catch (error) {
+    throw new EverythingIPCError(
+      `Failed to load ${dllPath}: ${error instanceof Error ? error.message : String(error)}`,
+      { code: "not-found", cause: error },
+    );
+  }
+
+  return {
+    Everything_SetSearchW: lib.func(
+      "void Everything_SetSearchW(const wchar_t *)",
+    ),
+    Everything_SetMatchPath: lib.func("void Everything_SetMatchPath(bool)"),
+    Everything_SetMatchCase: lib.func("void Everything_SetMatchCase(bool)"),
+    Everything_SetMatchWholeWord: lib.func(
+      "void Everything_SetMatchWholeWord(bool)",
+    ),
+    Everything_SetRegex: lib.func("void Everything_SetRegex(bool)"),
+    Everything_SetMax: lib.func("void Everything_SetMax(uint32)"),
+    Everything_SetOffset: lib.func("void Everything_SetOffset(uint32)"),
+    Everything_SetSort: lib.func("void Everything_SetSort(uint32)"),
+    Everything_SetRequestFlags: lib.func(
+      "void Everything_SetRequestFlags(uint32)",
+    ),
+    Everything_QueryW: lib.func("bool Everything_QueryW()"),
+    Everything_GetNumResults: lib.func("uint32 Everything_GetNumResults()"),
+    Everything_GetResultFileNameW: lib.func(
+      "const wchar_t *Everything_GetResultFileNameW(uint32)",
+    ),
+    Everything_GetResultPathW: lib.func(
+      "const wchar_t *Everything_GetResultPathW(uint32)",
+    ),
+    Everything_GetResultSize: lib.func(
+      "bool Everything_GetResultSize(uint32, _Out_ int64 *)",
+    ),
+    Everything_GetResultDateModified: lib.func(
+      "bool Everything_GetResultDateModified(uint32, _Out_ uint64 *)",
+    ),
+    Everything_GetResultDateCreated: lib.func(
+      "bool Everything_GetResultDateCreated(uint32, _Out_ uint64 *)",
+    ),
+    Everything_GetResultDateAccessed: lib.func(
+      "bool Everything_GetResultDateAccessed(uint32, _Out_ uint64 *)",
+    ),
+    Everything_GetResultAttributes: lib.func(
+      "uint32 Everything_GetResultAttributes(uint32)",
+    ),
+    Everything_GetResultRunCount: lib.func(
+      "uint32 Everything_GetResultRunCount(uint32)",
+    ),
+    Everything_GetResultDateRecentlyChanged: lib.func(
+      "bool Everything_GetResultDateRecentlyChanged(uint32, _Out_ uint64 *)",
+    ),
+    Everything_IsFolderResult: lib.func(
+      "bool Everything_IsFolderResult(uint32)",
+    ),
+    Everything_GetLastError: lib.func("uint32 Everything_GetLastError()"),
+    Everything_GetMajorVersion: lib.func("uint32 Everything_GetMajorVersion()"),
+    Everything_GetMinorVersion: lib.func("uint32 Everything_GetMinorVersion()"),
+    Everything_GetRevision: lib.func("uint32 Everything_GetRevision()"),
+    Everything_GetBuildNumber: lib.func("uint32 Everything_GetBuildNumber()"),
+    Everything_RebuildDB: lib.func("void Everything_RebuildDB()"),
+    Everything_GetTotResults: lib.func("uint32 Everything_GetTotResults()"),
+    Everything_IsDBLoaded: lib.func("bool Everything_IsDBLoaded()"),
+    Everything_IsAdmin: lib.func("bool Everything_IsAdmin()"),
+    Everything_IsAppData: lib.func("bool Everything_IsAppData()"),
+    Everything_Reset: lib.func("void Everything_Reset()"),
+  } as EverythingLib;
+}
+
+/**
+ * Build the options for a query from search options
+ */
+export function toIPCQueryOptions(
+  options: SearchOptions,
+  fields: Set<SearchField>,
+): IPCQueryOptions {
+  return {
+    matchCase: options.matchCase,
+    matchPath: options.matchPath,
+    matchWholeWord: options.matchWholeWord,
+    regex: options.regex,
+    maxResults: options.maxResults,
+    offset: options.offset,
+    sortBy: options.sortBy,
+    sortOrder: options.sortOrder,
+    fields: [...fields],
+  };
+}
+
+/**
+ * Run a request against the SDK. Calls block until the SDK returns, and the
+ * SDK keeps its search state globally, so callers must run one at a time.
+ */
+export function runIPCRequest<R extends IPCRequest>(
+  lib: EverythingLib,
+  request: R,
+): IPCResponses[R["type"]];
+export function runIPCRequest(
+  lib: EverythingLib,
+  request: IPCRequest,
+): IPCResponses[IPCRequest["type"]] {
+  switch (request.type) {
+    case "open":
+      // Check if Everything service is running
+      if (!lib.Everything_IsDBLoaded()) {
+        const lastError = lib.Everything_GetLastError();
+        throw new EverythingIPCError(
+          "Everything service is not running or database is not loaded",
+          { code: SDK_ERROR_CODES[lastError] ?? "ipc-not-running" },
+        );
+      }
+
+      // Test connection with a simple search
+      lib.Everything_Reset();
+      lib.Everything_SetSearchW("*");
+      if (!lib.Everything_QueryW()) {
+        throw lastError(lib, "Everything search failed");
+      }
+      return undefined;
+    case "query":
+      return runIPCQuery(lib, request.query, request.options);
+    case "version":
+      return [
+        lib.Everything_GetMajorVersion(),
+        lib.Everything_GetMinorVersion(),
+        lib.Everything_GetRevision(),
+        lib.Everything_GetBuildNumber(),
+      ].join(".");
+    case "rebuild":
+      lib.Everything_RebuildDB();
+      return undefined;
+    case "status":
+      return lib.Everything_IsDBLoaded();
+  }
+}
+
+/**
+ * Run a query and read one page of results into columns
+ */
+export function runIPCQuery(
+  lib: EverythingLib,
+  query: string,
+  options: IPCQueryOptions,
+): IPCResultPage {
+  // Reset search state
+  lib.Everything_Reset();
+
+  // Set search options
+  lib.Everything_SetSearchW(query);
+  lib.Everything_SetMatchPath(!!options.matchPath);
+  lib.Everything_SetMatchCase(!!options.matchCase);
+  lib.Everything_SetMatchWholeWord(!!options.matchWholeWord);
+  lib.Everything_SetRegex(!!options.regex);
+
+  // Only ask Everything for the columns we are going to read
+  let requestFlags = 0;
+  for (const field of options.fields) {
+    requestFlags |= REQUEST_FLAGS[field];
+  }
+  lib.Everything_SetRequestFlags(requestFlags);
+
+  // Set max results and offset for pagination
+  lib.Everything_SetMax(options.maxResults ?? 1000);
+  lib.Everything_SetOffset(options.offset ?? 0);
+
+  // Set sort order
+  if (options.sortBy) {
+    lib.Everything_SetSort(
+      SORT_VALUES[options.sortBy] + (options.sortOrder === "desc" ? 1 : 0),
+    );
+  }
+
+  // Execute search
+  if (!lib.Everything_QueryW()) {
+    throw lastError(lib, "Search failed");
+  }
+
+  const count = lib.Everything_GetNumResults();
+  const columns: IPCResultPage["columns"] = {};
+  for (const field of options.fields) {
+    if (field !== "name" && field !== "path") {
+      columns[field] = new Float64Array(count);
+    }
+  }
+  const page: IPCResultPage = {
+    totalResults: lib.Everything_GetTotResults(),
+    fields: options.fields,
+    names: new Array(count),
+    paths: new Array(count),
+    directories: new Uint8Array(count),
+    columns,
+  };
+
+  for (let i = 0; i < count; i++) {
+    page.names[i] = lib.Everything_GetResultFileNameW(i);
+    page.paths[i] = lib.Everything_GetResultPathW(i);
+    page.directories[i] = lib.Everything_IsFolderResult(i) ? 1 : 0;
+
+    // Unrequested fields are left out rather than read
+    if (columns.size) {
+      // Folder sizes are reported as -1 when they are not indexed
+      const size = readUInt64(lib.Everything_GetResultSize, i);
+      columns.size[i] = size === null || size < 0 ? Number.NaN : Number(size);
+    }
+    if (columns.dateModified) {
+      columns.dateModified[i] = readDate(
+        lib.Everything_GetResultDateModified,
+        i,
+      );
+    }
+    if (columns.dateCreated) {
+      columns.dateCreated[i] = readDate(lib.Everything_GetResultDateCreated, i);
+    }
+    if (columns.dateAccessed) {
+      columns.dateAccessed[i] = readDate(
+        lib.Everything_GetResultDateAccessed,
+        i,
+      );
+    }
+    if (columns.attributes) {
+      const value = lib.Everything_GetResultAttributes(i);
+      columns.attributes[i] =
+        value === INVALID_FILE_ATTRIBUTES ? Number.NaN : value;
+    }
+    if (columns.runCount) {
+      columns.runCount[i] = lib.Everything_GetResultRunCount(i);
+    }
+    if (columns.dateRecentlyChanged) {
+      columns.dateRecentlyChanged[i] = readDate(
+        lib.Everything_GetResultDateRecentlyChanged,
+        i,
+      );
+    }
+  }
+
+  return page;
+}
+
+/**
+ * Turn a page of columns back into search results
+ */
+export function decodeIPCResultPage(page: IPCResultPage): SearchResult[] {
+  const { columns } = page;
+  const number = (value: number | undefined) =>
+    value === undefined || Number.isNaN(value) ? null : value;
+  const date = (value: number | undefined) =>
+    value === undefined || Number.isNaN(value) ? null : new Date(value);
+
+  return page.names.map((name, i) => {
+    const path = page.paths[i];
+    const result = {
+      name,
+      path,
+      fullPath: path ? `${path}\\${name}` : name,
+      isDirectory: page.directories[i] === 1,
+    } as SearchResult;
+
+    if (columns.size) {
+      result.size = number(columns.size[i]);
+    }
+    if (columns.dateModified) {
+      result.dateModified = date(columns.dateModified[i]);
+    }
+    if (columns.dateCreated) {
+      result.dateCreated = date(columns.dateCreated[i]);
+    }
+    if (columns.dateAccessed) {
+      result.dateAccessed = date(columns.dateAccessed[i]);
+    }
+    if (columns.attributes) {
+      const attributes = number(columns.attributes[i]);
+      const known = attributes !== null;
+      result.attributes = attributes;
+      result.isHidden = known ? !!(attributes & 0x2) : null; // FILE_ATTRIBUTE_HIDDEN
+      result.isSystem = known ? !!(attributes & 0x4) : null; // FILE_ATTRIBUTE_SYSTEM
+      result.isReadOnly = known ? !!(attributes & 0x1) : null; // FILE_ATTRIBUTE_READONLY
+    }
+    if (columns.runCount) {
+      result.runCount = columns.runCount[i];
+    }
+    if (columns.dateRecentlyChanged) {
+      result.dateRecentlyChanged = date(columns.dateRecentlyChanged[i]);
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Answer requests posted to a worker, loading the library on the first one
+ * @param loadLibrary Load the DLL, or return a fake library
+ */
+export function startIPCWorker(
+  port: MessagePort,
+  loadLibrary: () => EverythingLib | Promise<EverythingLib>,
+): void {
+  let lib: EverythingLib | null = null;
+
+  port.on("message", async ({ id, request }: IPCWorkerRequest) => {
+    let response: IPCWorkerResponse;
+    let transfer: ArrayBuffer[] = [];
+
+    try {
+      lib ??= await loadLibrary();
+      const value = runIPCRequest(lib, request);
+      response = { id, ok: true, value };
+
+      // Hand the columns over instead of copying them
+      if (request.type === "query") {
+        const page = value as IPCResultPage;
+        transfer = [page.directories, ...Object.values(page.columns)].map(
+          (column) => column.buffer as ArrayBuffer,
+        );
+      }
+    } catch (error) {
+      response = {
+        id,
+        ok: false,
+        error: {
+          message: error instanceof Error ? error.message : String(error),
+          code: error instanceof EverythingError ? error.code : undefined,
+        },
+      };
+    }
+
+    port.postMessage(response, transfer);
+  });
+}
+
+/**
+ * Build an error for the failure reported by Everything_GetLastError()
+ */
+function lastError(lib: EverythingLib, message: string): EverythingIPCError {
+  const lastError = lib.Everything_GetLastError();
+  return new EverythingIPCError(`${message} with error code: ${lastError}`, {
+    code: SDK_ERROR_CODES[lastError],
+  });
+}
+
+/**
+ * Call an SDK function that writes a 64-bit value through a pointer
+ * @returns The value, or null if the SDK reports it as unavailable
+ */
+function readUInt64(
+  read: (index: number, value: UInt64Out) => boolean,
+  index: number,
+): number | bigint | null {
+  const value: UInt64Out = [null];
+  return read(index, value) ? value[0] : null;
+}
+
+/**
+ * Read a FILETIME as milliseconds since the epoch, or NaN if unknown
+ */
+function readDate(
+  read: (index: number, value: UInt64Out) => boolean,
+  index: number,
+): number {
+  return fileTimeToDate(readUInt64(read, index))?.getTime() ?? Number.NaN;
+}
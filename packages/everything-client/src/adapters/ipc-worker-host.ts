@@ -0,0 +1,208 @@
+import { Worker } from "node:worker_threads";
+import {
+  EverythingAbortError,
+  type EverythingErrorCode,
+  EverythingIPCError,
+} from "../utils/errors";
+import type {
+  IPCRequest,
+  IPCResponses,
+  IPCWorkerRequest,
+  IPCWorkerResponse,
+} from "./ipc-sdk";
+
+/**
+ * Options for an IPC worker host
+ */
+export interface IPCWorkerHostOptions {
+  /** Worker script that calls startIPCWorker() */
+  script: string | URL;
+  /** Passed to the worker as workerData */
+  workerData?: unknown;
+  /** Terminate the worker when a request takes longer (in milliseconds) */
+  timeout?: number;
+}
+
+/**
+ * A request waiting for the worker to answer
+ */
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Runs SDK requests in a worker thread so they never block the event loop.
+ * A request that times out or is aborted terminates the worker, since a
+ * blocking SDK call cannot be interrupted; the next request starts a new one.
+ * Callers sharing the SDK's search state should wait for stopped() first.
+ */
+export class IPCWorkerHost {
+  private options: IPCWorkerHostOptions;
+  private worker: Worker | null = null;
+  private exiting: Promise<void> = Promise.resolve();
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 0;
+
+  /**
+   * Create a new IPC worker host
+   */
+  constructor(options: IPCWorkerHostOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Post a request to the worker and wait for its answer
+   */
+  public request<R extends IPCRequest>(
+    request: R,
+    signal?: AbortSignal,
+  ): Promise<IPCResponses[R["type"]]> {
+    if (signal?.aborted) {
+      return Promise.reject(
+        new EverythingAbortError(undefined, {
+          adapter: "ipc",
+          cause: signal.reason,
+        }),
+      );
+    }
+
+    const worker = this.start();
+    const id = this.nextId++;
+    const { timeout } = this.options;
+
+    return new Promise<IPCResponses[R["type"]]>((resolve, reject) => {
+      const onAbort = () => {
+        this.fail(
+          new EverythingAbortError(undefined, {
+            adapter: "ipc",
+            cause: signal?.reason,
+          }),
+        );
+      };
+      const timer =
+        timeout === undefined
+          ? undefined
+          : setTimeout(() => {
+              this.fail(
+                new EverythingIPCError(
+                  `IPC request timed out after ${timeout}ms`,
+                  { code: "timeout" },
+                ),
+              );
+            }, timeout);
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        this.pending.delete(id);
+        if (this.pending.size === 0) {
+          this.worker?.unref();
+        }
+      };
+
+      this.pending.set(id, {
+        resolve: (value) => {
+          settle();
+          resolve(value as IPCResponses[R["type"]]);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      });
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      // Keep the process alive until the worker answers
+      worker.ref();
+      const message: IPCWorkerRequest = { id, request };
+      worker.postMessage(message);
+    });
+  }
+
+  /**
+   * Wait until the last terminated worker has exited. A worker blocked in
+   * an SDK call only exits once the call returns.
+   */
+  public stopped(): Promise<void> {
+    return this.exiting;
+  }
+
+  /**
+   * Stop the worker, failing any request still waiting for it
+   */
+  public terminate(): void {
+    this.fail(new EverythingIPCError("IPC worker was terminated"));
+  }
+
+  /**
+   * Get the running worker, starting one if needed
+   */
+  private start(): Worker {
+    if (this.worker) {
+      return this.worker;
+    }
+
+    const worker = new Worker(this.options.script, {
+      workerData: this.options.workerData,
+    });
+
+    worker.on("message", (response: IPCWorkerResponse) => {
+      const pending = this.pending.get(response.id);
+      if (!pending) {
+        return;
+      }
+
+      if (response.ok) {
+        pending.resolve(response.value);
+      } else {
+        pending.reject(
+          new EverythingIPCError(response.error.message, {
+            code: response.error.code as EverythingErrorCode | undefined,
+          }),
+        );
+      }
+    });
+    worker.on("error", (error) => {
+      this.fail(
+        new EverythingIPCError(`IPC worker failed: ${error.message}`, {
+          code: "ipc-failed",
+          cause: error,
+        }),
+      );
+    });
+    worker.on("exit", (exitCode) => {
+      if (this.worker === worker) {
+        this.fail(
+          new EverythingIPCError(`IPC worker exited with code ${exitCode}`, {
+            code: "ipc-failed",
+          }),
+        );
+      }
+    });
+
+    // Let the process exit while the worker sits idle
+    worker.unref();
+
+    this.worker = worker;
+    return worker;
+  }
+
+  /**
+   * Terminate the worker and reject every pending request with an error
+   */
+  private fail(error: unknown): void {
+    const worker = this.worker;
+    this.worker = null;
+    if (worker) {
+      const exited = worker.terminate().then(
+        () => {},
+        () => {},
+      );
+      this.exiting = Promise.all([this.exiting, exited]).then(() => {});
+    }
+
+    for (const pending of [...this.pending.values()]) {
+      pending.reject(error);
+    }
+  }
+}
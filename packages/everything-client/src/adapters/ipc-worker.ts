@@ -0,0 +1,15 @@
+import { parentPort, workerData } from "node:worker_threads";
+import {
+  type IPCWorkerData,
+  loadEverythingLibrary,
+  startIPCWorker,
+} from "./ipc-sdk";
+
+/**
+ * Worker entry for the IPC adapter's `worker` option
+ */
+if (parentPort) {
+  startIPCWorker(parentPort, () =>
+    loadEverythingLibrary((workerData as IPCWorkerData).dllPath),
+  );
+}
@@ -0,0 +1,218 @@
+import type {
+  AdapterCapabilities,
+  ChangeFeedOptions,
+  ExportOptions,
+  FileChangeCallback,
+  OperationOptions,
+  SearchField,
+  SearchIterator,
+  SearchIteratorOptions,
+  SearchOptions,
+  SearchQuery,
+  SearchResultSet,
+  SearchStatus,
+  SelectedSearchResult,
+  Unsubscribe,
+  WatchOptions,
+} from "../types";
+import { exportSearchResults } from "../utils/export";
+import type { BaseAdapter } from "./base-adapter";
+import { DeferredSearchIterator } from "./failover-adapter";
+
+/**
+ * Adapter that loads the adapter it stands for on first use, so that
+ * adapter modules and their native dependencies are only imported when
+ * they are actually needed
+ */
+export class LazyAdapter implements BaseAdapter {
+  private load: () => Promise<BaseAdapter>;
+  private adapter: BaseAdapter | null = null;
+  private loading: Promise<BaseAdapter> | null = null;
+
+  /**
+   * Create a new lazy adapter
+   * @param load Import and create the adapter; a failed load is retried on
+   * the next call
+   */
+  constructor(load: () => Promise<BaseAdapter>) {
+    this.load = load;
+  }
+
+  /**
+   * Load the adapter and connect through it
+   */
+  public async connect(): Promise<void> {
+    const adapter = await this.resolve();
+    await adapter.connect();
+  }
+
+  /**
+   * Disconnect the adapter, if it has been loaded
+   */
+  public disconnect(): void {
+    this.adapter?.disconnect();
+  }
+
+  /**
+   * Check if the adapter has been loaded and is connected
+   */
+  public isConnected(): boolean {
+    return this.adapter?.isConnected() ?? false;
+  }
+
+  /**
+   * Describe what the adapter supports
+   */
+  public async getCapabilities(): Promise<AdapterCapabilities> {
+    const adapter = await this.resolve();
+    return adapter.getCapabilities();
+  }
+
+  /**
+   * Search for files and folders
+   */
+  public async search<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options?: SearchOptions<F>,
+  ): Promise<SearchResultSet<SelectedSearchResult<F>>> {
+    const adapter = await this.resolve();
+    return adapter.search(query, options);
+  }
+
+  /**
+   * Iterate over every result of a search, loading the adapter when the
+   * first page is requested
+   */
+  public searchIterator<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options?: SearchIteratorOptions<F>,
+  ): SearchIterator<SelectedSearchResult<F>> {
+    return new DeferredSearchIterator(async () => {
+      const adapter = await this.resolve();
+      const iterator = adapter.searchIterator(query, options);
+      const first = await iterator.next();
+      return { iterator, first };
+    });
+  }
+
+  /**
+   * Export search results, natively if the adapter can
+   */
+  public async exportResults<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: ExportOptions<F>,
+  ): Promise<number> {
+    const adapter = await this.resolve();
+    return adapter.exportResults
+      ? adapter.exportResults(query, options)
+      : exportSearchResults(adapter.searchIterator(query, options), options);
+  }
+
+  /**
+   * Load the adapter this one stands for
+   */
+  public async resolveAdapter(): Promise<BaseAdapter> {
+    const adapter = await this.resolve();
+    return adapter.resolveAdapter ? adapter.resolveAdapter() : adapter;
+  }
+
+  /**
+   * Get the Everything version
+   */
+  public async getVersion(options?: OperationOptions): Promise<string> {
+    const adapter = await this.resolve();
+    return adapter.getVersion(options);
+  }
+
+  /**
+   * Rebuild the Everything index
+   */
+  public async rebuildIndex(options?: OperationOptions): Promise<void> {
+    const adapter = await this.resolve();
+    return adapter.rebuildIndex(options);
+  }
+
+  /**
+   * Get the current search status
+   */
+  public async getSearchStatus(
+    options?: OperationOptions,
+  ): Promise<SearchStatus> {
+    const adapter = await this.resolve();
+    return adapter.getSearchStatus(options);
+  }
+
+  /**
+   * Monitor file changes through the adapter once it has loaded
+   */
+  public monitorFileChanges(
+    callback: FileChangeCallback,
+    options: ChangeFeedOptions = {},
+  ): Unsubscribe {
+    return this.subscribe(
+      (adapter) => adapter.monitorFileChanges(callback, options),
+      options.onError,
+    );
+  }
+
+  /**
+   * Watch the results of a query through the adapter once it has loaded
+   */
+  public watch(
+    query: SearchQuery,
+    options: WatchOptions,
+    callback: FileChangeCallback,
+  ): Unsubscribe {
+    return this.subscribe(
+      (adapter) => adapter.watch(query, options, callback),
+      options.onError,
+    );
+  }
+
+  /**
+   * Get the adapter, loading it if needed. Concurrent callers share a load.
+   */
+  private async resolve(): Promise<BaseAdapter> {
+    if (this.adapter) {
+      return this.adapter;
+    }
+
+    this.loading ??= this.load().finally(() => {
+      this.loading = null;
+    });
+    this.adapter = await this.loading;
+    return this.adapter;
+  }
+
+  /**
+   * Subscribe through the adapter once it has loaded, unless the caller
+   * unsubscribed first
+   */
+  private subscribe(
+    start: (adapter: BaseAdapter) => Unsubscribe,
+    onError: ((error: unknown) => void) | undefined,
+  ): Unsubscribe {
+    let unsubscribe: Unsubscribe | null = null;
+    let stopped = false;
+
+    this.resolve().then(
+      (adapter) => {
+        if (!stopped) {
+          unsubscribe = start(adapter);
+        }
+      },
+      (error) => {
+        if (onError) {
+          onError(error);
+        } else {
+          console.error("Error loading adapter:", error);
+        }
+      },
+    );
+
+    return () => {
+      stopped = true;
+      unsubscribe?.();
+    };
+  }
+}
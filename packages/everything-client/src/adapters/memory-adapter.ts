@@ -0,0 +1,465 @@
+import {
+  type MatchableResult,
+  type QueryMatcher,
+  createQueryMatcher,
+  resolveQuery,
+} from "../query";
+import type {
+  AdapterCapabilities,
+  ChangeFeedOptions,
+  FileChange,
+  FileChangeCallback,
+  OperationOptions,
+  SearchField,
+  SearchIterator,
+  SearchIteratorOptions,
+  SearchOptions,
+  SearchQuery,
+  SearchResult,
+  SearchResultSet,
+  SearchStatus,
+  SelectedSearchResult,
+  Unsubscribe,
+  WatchOptions,
+} from "../types";
+import { throwIfAborted } from "../utils/abort";
+import { FULL_CAPABILITIES, SORT_KEYS } from "../utils/capabilities";
+import { EverythingSearchError } from "../utils/errors";
+import { SEARCH_FIELDS, resolveFields } from "../utils/fields";
+import {
+  type SearchPage,
+  createSearchIterator,
+  fetchSearchResultSet,
+} from "../utils/pagination";
+import { sortResults } from "../utils/sort";
+import { watchQuery } from "../utils/watch";
+import type { BaseAdapter } from "./base-adapter";
+
+/**
+ * Metadata for a file or folder indexed by the memory adapter. Metadata
+ * that is left out is reported as unknown (null) in search results.
+ */
+export interface MemoryFileInfo {
+  /** Full path, e.g. "C:\\Docs\\report.pdf" (forward slashes are accepted) */
+  path: string;
+  /** File size in bytes */
+  size?: number;
+  /** Date the file was last modified */
+  dateModified?: Date;
+  /** Date the file was created */
+  dateCreated?: Date;
+  /** Date the file was last accessed */
+  dateAccessed?: Date;
+  /** File attributes (bitmask) */
+  attributes?: number;
+  /** Number of times the file was opened from Everything */
+  runCount?: number;
+  /** Date the file last changed in the index (set by addFile() if left out) */
+  dateRecentlyChanged?: Date;
+  /** Whether the entry is a folder (defaults to a trailing separator check) */
+  isDirectory?: boolean;
+  /** File content, searched by `content:` */
+  content?: string;
+}
+
+/**
+ * A full path or a file with metadata
+ */
+export type MemoryFile = string | MemoryFileInfo;
+
+/**
+ * Options for the memory adapter
+ */
+export interface MemoryAdapterOptions {
+  /** Files and folders to index */
+  files?: MemoryFile[];
+  /** Version string reported by getVersion() */
+  version?: string;
+  /** Reference time for relative dates such as `today` (defaults to now) */
+  now?: () => Date;
+}
+
+/**
+ * Default adapter options
+ */
+const DEFAULT_OPTIONS: MemoryAdapterOptions = {
+  files: [],
+  version: "memory",
+};
+
+/**
+ * Everything the memory adapter can do, except sorting by keys that need
+ * the shell (type name) or a run history (date run)
+ */
+const CAPABILITIES: AdapterCapabilities = {
+  ...FULL_CAPABILITIES,
+  sortKeys: SORT_KEYS.filter(
+    (key) => key !== "type-name" && key !== "date-run",
+  ),
+};
+
+const FILE_ATTRIBUTE_DIRECTORY = 0x10;
+
+/**
+ * A monitorFileChanges() subscriber
+ */
+interface ChangeListener {
+  callback: FileChangeCallback;
+  /** Query limiting the changes reported, or "" for every change */
+  query: string;
+}
+
+/**
+ * Create a new memory adapter with the provided options
+ */
+export function createMemoryAdapter(
+  options: MemoryAdapterOptions = {},
+): MemoryAdapter {
+  return new MemoryAdapter(options);
+}
+
+/**
+ * Adapter that evaluates Everything queries against an in-memory index,
+ * for deterministic tests on any platform
+ */
+export class MemoryAdapter implements BaseAdapter {
+  private options: MemoryAdapterOptions;
+  private connected = false;
+  private index = new Map<string, MatchableResult>();
+  private listeners = new Set<ChangeListener>();
+  private lastTotal = 0;
+
+  /**
+   * Create a new memory adapter
+   */
+  constructor(options: MemoryAdapterOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.setFiles(this.options.files ?? []);
+  }
+
+  /**
+   * Replace the indexed files without emitting changes
+   */
+  public setFiles(files: MemoryFile[]): void {
+    this.index.clear();
+    for (const file of files) {
+      const entry = toEntry(file);
+      this.index.set(entry.fullPath.toLowerCase(), entry);
+    }
+  }
+
+  /**
+   * Add or replace a file, notifying file change listeners
+   */
+  public addFile(file: MemoryFile): void {
+    const entry = toEntry(file);
+    const key = entry.fullPath.toLowerCase();
+    const previous = this.index.get(key);
+
+    entry.dateRecentlyChanged ??= this.now();
+    this.index.set(key, entry);
+    this.touchParent(entry);
+    this.emit(
+      { path: entry.fullPath, type: previous ? "modified" : "added" },
+      previous ? [previous, entry] : [entry],
+    );
+  }
+
+  /**
+   * Remove a file, notifying file change listeners
+   */
+  public removeFile(path: string): void {
+    const key = normalizePath(path).toLowerCase();
+    const entry = this.index.get(key);
+
+    if (entry) {
+      this.index.delete(key);
+      this.touchParent(entry);
+      this.emit({ path: entry.fullPath, type: "deleted" }, [entry]);
+    }
+  }
+
+  /**
+   * Connect to the in-memory index
+   */
+  public async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  /**
+   * Disconnect from the in-memory index
+   */
+  public disconnect(): void {
+    this.connected = false;
+  }
+
+  /**
+   * Check if connected to the in-memory index
+   */
+  public isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Describe what the adapter supports - every option and operation
+   */
+  public async getCapabilities(): Promise<AdapterCapabilities> {
+    return CAPABILITIES;
+  }
+
+  /**
+   * Search the indexed files
+   */
+  public async search<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: SearchOptions<F> = {},
+  ): Promise<SearchResultSet<SelectedSearchResult<F>>> {
+    const queryString = resolveQuery(query);
+    return fetchSearchResultSet(
+      (pageOptions) => this.searchPage(queryString, pageOptions),
+      queryString,
+      options,
+    );
+  }
+
+  /**
+   * Iterate over every result of a search, fetching pages on demand
+   */
+  public searchIterator<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: SearchIteratorOptions<F> = {},
+  ): SearchIterator<SelectedSearchResult<F>> {
+    const queryString = resolveQuery(query);
+    return createSearchIterator(
+      (pageOptions) => this.searchPage(queryString, pageOptions),
+      options,
+    );
+  }
+
+  /**
+   * Evaluate a query and slice one page out of the sorted matches
+   */
+  private async searchPage(
+    query: string,
+    options: SearchOptions,
+  ): Promise<SearchPage> {
+    throwIfAborted(options.signal, "memory");
+
+    if (!this.connected) {
+      await this.connect();
+    }
+
+    try {
+      const matches = createQueryMatcher(query, {
+        ...options,
+        now: this.options.now?.(),
+      });
+
+      const filtered = [...this.index.values()].filter(
+        (entry) =>
+          (options.includeHidden !== false || !entry.isHidden) &&
+          (options.includeSystem !== false || !entry.isSystem) &&
+          (options.includeDirectories !== false || !entry.isDirectory) &&
+          (options.includeFiles !== false || entry.isDirectory) &&
+          matches(entry),
+      );
+
+      const sorted = sortResults(filtered, options.sortBy, options.sortOrder);
+      const offset = options.offset ?? 0;
+      const end =
+        typeof options.maxResults === "number"
+          ? offset + options.maxResults
+          : undefined;
+
+      const fields = resolveFields(options);
+
+      this.lastTotal = sorted.length;
+      return {
+        items: sorted
+          .slice(offset, end)
+          .map((entry) => selectFields(entry, fields)),
+        totalResults: sorted.length,
+        availableFields: [...fields],
+      };
+    } catch (error) {
+      throw new EverythingSearchError(
+        `Search failed: ${error instanceof Error ? error.message : String(error)}`,
+        { adapter: "memory", cause: error },
+      );
+    }
+  }
+
+  /**
+   * Get the configured version string
+   */
+  public async getVersion(options: OperationOptions = {}): Promise<string> {
+    throwIfAborted(options.signal, "memory");
+    return this.options.version ?? "memory";
+  }
+
+  /**
+   * Rebuild the index - a no-op for the in-memory index
+   */
+  public async rebuildIndex(options: OperationOptions = {}): Promise<void> {
+    throwIfAborted(options.signal, "memory");
+  }
+
+  /**
+   * Get the status of the last search
+   */
+  public async getSearchStatus(
+    options: OperationOptions = {},
+  ): Promise<SearchStatus> {
+    throwIfAborted(options.signal, "memory");
+    return {
+      totalResults: this.lastTotal,
+      indexingComplete: true,
+      percentComplete: 100,
+    };
+  }
+
+  /**
+   * Monitor changes made through addFile() and removeFile(), limited to
+   * files matching `options.query` before or after the change
+   * @throws EverythingSearchError if the query cannot be evaluated locally
+   */
+  public monitorFileChanges(
+    callback: FileChangeCallback,
+    options: ChangeFeedOptions = {},
+  ): Unsubscribe {
+    const listener: ChangeListener = {
+      callback,
+      query: options.query ? resolveQuery(options.query).trim() : "",
+    };
+    if (listener.query) {
+      // Report unsupported queries now rather than on the first change
+      this.changeMatcher(listener.query);
+    }
+
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Watch the results of a query for changes
+   */
+  public watch(
+    query: SearchQuery,
+    options: WatchOptions,
+    callback: FileChangeCallback,
+  ): Unsubscribe {
+    return watchQuery(this, query, options, callback);
+  }
+
+  /**
+   * Mark the folder containing an entry as changed, as the file system does
+   */
+  private touchParent(entry: MatchableResult): void {
+    const parent = this.index.get(entry.path.toLowerCase());
+    if (parent) {
+      const now = this.now();
+      parent.dateModified = now;
+      parent.dateRecentlyChanged = now;
+    }
+  }
+
+  private now(): Date {
+    return this.options.now?.() ?? new Date();
+  }
+
+  /**
+   * Compile a change feed query; relative dates are evaluated at each change
+   */
+  private changeMatcher(query: string): QueryMatcher {
+    try {
+      return createQueryMatcher(query, { now: this.options.now?.() });
+    } catch (error) {
+      throw new EverythingSearchError(
+        `Invalid change feed query: ${error instanceof Error ? error.message : String(error)}`,
+        { adapter: "memory", cause: error },
+      );
+    }
+  }
+
+  /**
+   * Notify the listeners whose query matches one of the entry's versions
+   */
+  private emit(change: FileChange, entries: MatchableResult[]): void {
+    for (const { callback, query } of this.listeners) {
+      if (!query || entries.some(this.changeMatcher(query))) {
+        callback([change]);
+      }
+    }
+  }
+}
+
+/**
+ * Convert forward slashes to backslashes and drop trailing separators
+ */
+function normalizePath(path: string): string {
+  return path.replace(/\//g, "\\").replace(/(?<=.)\\+$/, "");
+}
+
+/**
+ * Build an indexed entry from a path or file description
+ */
+function toEntry(file: MemoryFile): MatchableResult {
+  const info = typeof file === "string" ? { path: file } : file;
+  const fullPath = normalizePath(info.path);
+  const separator = fullPath.lastIndexOf("\\");
+  const isDirectory =
+    info.isDirectory ??
+    (/[\\/]$/.test(info.path) ||
+      !!((info.attributes ?? 0) & FILE_ATTRIBUTE_DIRECTORY));
+  const attributes =
+    (info.attributes ?? 0) | (isDirectory ? FILE_ATTRIBUTE_DIRECTORY : 0);
+
+  return {
+    name: separator === -1 ? fullPath : fullPath.slice(separator + 1),
+    path: separator === -1 ? "" : fullPath.slice(0, separator),
+    fullPath,
+    size: info.size ?? null,
+    dateModified: info.dateModified ?? null,
+    dateCreated: info.dateCreated ?? null,
+    dateAccessed: info.dateAccessed ?? null,
+    attributes,
+    runCount: info.runCount ?? null,
+    dateRecentlyChanged: info.dateRecentlyChanged ?? null,
+    isDirectory,
+    isHidden: !!(attributes & 0x2), // FILE_ATTRIBUTE_HIDDEN
+    isSystem: !!(attributes & 0x4), // FILE_ATTRIBUTE_SYSTEM
+    isReadOnly: !!(attributes & 0x1), // FILE_ATTRIBUTE_READONLY
+    content: info.content,
+  };
+}
+
+/**
+ * Copy an indexed entry with only the requested fields
+ */
+function selectFields(
+  entry: MatchableResult,
+  fields: Set<SearchField>,
+): SearchResult {
+  const result: Partial<SearchResult> = {
+    name: entry.name,
+    path: entry.path,
+    fullPath: entry.fullPath,
+    isDirectory: entry.isDirectory,
+  };
+
+  for (const field of SEARCH_FIELDS) {
+    if (fields.has(field)) {
+      Object.assign(result, { [field]: entry[field] });
+    }
+  }
+
+  if (fields.has("attributes")) {
+    result.isHidden = entry.isHidden;
+    result.isSystem = entry.isSystem;
+    result.isReadOnly = entry.isReadOnly;
+  }
+
+  return result as SearchResult;
+}
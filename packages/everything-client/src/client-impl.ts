@@ -0,0 +1,274 @@
+import type { BaseAdapter } from "./adapters/base-adapter";
+import { resolveQuery } from "./query";
+import type {
+  AdapterCapabilities,
+  AdapterName,
+  ChangeFeedOptions,
+  ClientOptions,
+  EverythingClient,
+  ExportOptions,
+  FileChangeCallback,
+  OperationOptions,
+  SearchField,
+  SearchIterator,
+  SearchIteratorOptions,
+  SearchOptions,
+  SearchQuery,
+  SearchResultSet,
+  SearchStatus,
+  SelectedSearchResult,
+  Unsubscribe,
+  WatchOptions,
+} from "./types";
+import { CircuitBreaker } from "./utils/circuit-breaker";
+import { EverythingUnsupportedError } from "./utils/errors";
+import type { exportSearchResults } from "./utils/export";
+import {
+  type SearchPage,
+  createSearchIterator,
+  fetchSearchResultSet,
+} from "./utils/pagination";
+import { RetryPolicy, isRetryableError } from "./utils/retry";
+
+/**
+ * Name of the adapter in use, or a function that reports the adapter
+ * failover settled on
+ */
+export type ActiveAdapter = AdapterName | "custom" | (() => AdapterName | null);
+
+/**
+ * Writes search results for adapters that cannot export them natively
+ */
+export type ResultExporter = typeof exportSearchResults;
+
+/**
+ * Implementation of the Everything client, shared by every entry point.
+ * It imports no Node.js built-ins; the entry points pass in what needs them.
+ */
+export class EverythingClientImpl implements EverythingClient {
+  private adapter: BaseAdapter;
+  private activeAdapter: ActiveAdapter;
+  private exporter: ResultExporter | null;
+  private retry: RetryPolicy | null;
+  private breaker: CircuitBreaker | null;
+
+  /**
+   * @param adapter Adapter to delegate to
+   * @param activeAdapter Name of a fixed adapter, or how to find the active one
+   * @param options Client options with the retry and circuit breaker policy
+   * @param exporter Export writer for adapters without a native export
+   */
+  constructor(
+    adapter: BaseAdapter,
+    activeAdapter: ActiveAdapter,
+    options: ClientOptions = {},
+    exporter: ResultExporter | null = null,
+  ) {
+    this.adapter = adapter;
+    this.activeAdapter = activeAdapter;
+    this.exporter = exporter;
+    this.retry = options.retry ? new RetryPolicy(options.retry) : null;
+    this.breaker = options.circuitBreaker
+      ? new CircuitBreaker(options.circuitBreaker, (error) =>
+          isRetryableError(error, options.retry?.retryableCodes),
+        )
+      : null;
+  }
+
+  /**
+   * Search for files and directories
+   */
+  public async search<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: SearchOptions<F> = {},
+  ): Promise<SearchResultSet<SelectedSearchResult<F>>> {
+    if (!this.retry && !this.breaker) {
+      return this.adapter.search(query, options);
+    }
+
+    // Page through the guard so that next() is retried as well
+    return fetchSearchResultSet(
+      (pageOptions) => this.fetchPage<F>(query, pageOptions),
+      resolveQuery(query),
+      options,
+    );
+  }
+
+  /**
+   * Iterate over every result of a search, fetching pages on demand
+   */
+  public searchIterator<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: SearchIteratorOptions<F> = {},
+  ): SearchIterator<SelectedSearchResult<F>> {
+    if (!this.retry && !this.breaker) {
+      return this.adapter.searchIterator(query, options);
+    }
+
+    return createSearchIterator(
+      (pageOptions) => this.fetchPage<F>(query, pageOptions),
+      options,
+    );
+  }
+
+  /**
+   * Write every result of a search to a file or stream. Exports are not
+   * retried as a whole, since part of the output may already be written;
+   * native exports still go through the circuit breaker and client-side
+   * exports retry each page.
+   */
+  public async exportResults<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: ExportOptions<F>,
+  ): Promise<number> {
+    // Look through lazy and failover adapters, which always offer an export
+    const { resolveAdapter } = this.adapter;
+    const adapter = resolveAdapter
+      ? await this.guard(
+          () => resolveAdapter.call(this.adapter),
+          options.signal,
+        )
+      : this.adapter;
+
+    const { exportResults } = adapter;
+    if (exportResults) {
+      return this.guard(
+        () => exportResults.call(adapter, query, options),
+        options.signal,
+        false,
+      );
+    }
+    if (!this.exporter) {
+      throw new EverythingUnsupportedError(
+        "Exporting results needs Node.js file streams",
+        "exportResults",
+      );
+    }
+    return this.exporter(this.searchIterator(query, options), options);
+  }
+
+  /**
+   * Connect to the Everything service
+   */
+  public async connect(): Promise<void> {
+    return this.guard(() => this.adapter.connect());
+  }
+
+  /**
+   * Disconnect from the Everything service
+   */
+  public disconnect(): void {
+    this.adapter.disconnect();
+  }
+
+  /**
+   * Check if connected to the Everything service
+   */
+  public isConnected(): boolean {
+    return this.adapter.isConnected();
+  }
+
+  /**
+   * Get the adapter in use
+   */
+  public getActiveAdapter(): AdapterName | "custom" | null {
+    return typeof this.activeAdapter === "function"
+      ? this.activeAdapter()
+      : this.activeAdapter;
+  }
+
+  /**
+   * Describe what the adapter in use supports
+   */
+  public async getCapabilities(): Promise<AdapterCapabilities> {
+    return this.guard(() => this.adapter.getCapabilities());
+  }
+
+  /**
+   * Get the Everything version
+   */
+  public async getVersion(options?: OperationOptions): Promise<string> {
+    return this.guard(() => this.adapter.getVersion(options), options?.signal);
+  }
+
+  /**
+   * Rebuild the Everything index
+   */
+  public async rebuildIndex(options?: OperationOptions): Promise<void> {
+    return this.guard(
+      () => this.adapter.rebuildIndex(options),
+      options?.signal,
+    );
+  }
+
+  /**
+   * Get the current search status
+   */
+  public async getSearchStatus(
+    options?: OperationOptions,
+  ): Promise<SearchStatus> {
+    return this.guard(
+      () => this.adapter.getSearchStatus(options),
+      options?.signal,
+    );
+  }
+
+  /**
+   * Monitor file changes. Subscriptions bypass the retry policy and the
+   * circuit breaker: polls back off on their own and report failures to
+   * `onError`, and a long-running feed must not trip the breaker for
+   * searches.
+   */
+  public monitorFileChanges(
+    callback: FileChangeCallback,
+    options?: ChangeFeedOptions,
+  ): Unsubscribe {
+    return this.adapter.monitorFileChanges(callback, options);
+  }
+
+  /**
+   * Watch the results of a query for changes, outside the retry policy and
+   * circuit breaker like monitorFileChanges()
+   */
+  public watch(
+    query: SearchQuery,
+    options: WatchOptions,
+    callback: FileChangeCallback,
+  ): Unsubscribe {
+    return this.adapter.watch(query, options, callback);
+  }
+
+  /**
+   * Fetch one page of results through the guard
+   */
+  private async fetchPage<F extends SearchField>(
+    query: SearchQuery,
+    options: SearchOptions,
+  ): Promise<SearchPage<SelectedSearchResult<F>>> {
+    const page = await this.guard(
+      () => this.adapter.search(query, options as SearchOptions<F>),
+      options.signal,
+    );
+    return {
+      items: page.items,
+      totalResults: page.totalResults,
+      availableFields: page.availableFields,
+    };
+  }
+
+  /**
+   * Run an adapter call through the circuit breaker and retry policy
+   * @param retry Whether the call may be retried
+   */
+  private guard<T>(
+    operation: () => Promise<T>,
+    signal?: AbortSignal,
+    retry = true,
+  ) {
+    const breaker = this.breaker;
+    const attempt = breaker ? () => breaker.execute(operation) : operation;
+    return this.retry && retry
+      ? this.retry.execute(attempt, signal)
+      : attempt();
+  }
+}
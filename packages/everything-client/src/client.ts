@@ -1,165 +1,120 @@
-import { platform } from "node:os";
-import {
-  type BaseAdapter,
-  createCLIAdapter,
-  createHTTPAdapter,
-  createIPCAdapter,
-} from "./adapters";
-import type {
-  ClientOptions,
-  EverythingClient,
-  FileChangeCallback,
-  SearchOptions,
-  SearchResult,
-  SearchStatus,
-  Unsubscribe,
-} from "./types";
+import type { BaseAdapter } from "./adapters/base-adapter";
+import { createFailoverAdapter } from "./adapters/failover-adapter";
+import { LazyAdapter } from "./adapters/lazy-adapter";
+import { EverythingClientImpl } from "./client-impl";
+import type { AdapterName, ClientOptions, EverythingClient } from "./types";
 import { EverythingError } from "./utils/errors";
+import { exportSearchResults } from "./utils/export";
+
+/**
+ * Names of the built-in adapters
+ */
+const ADAPTER_NAMES: AdapterName[] = ["cli", "ipc", "http"];
 
 /**
  * Create a new Everything client
  */
 export function createClient(options: ClientOptions = {}): EverythingClient {
-  // Determine the best adapter to use
-  const adapter = selectAdapter(options);
+  // If user passed an adapter instance, use it as-is
+  if (typeof options.adapter === "object") {
+    return new EverythingClientImpl(
+      options.adapter,
+      "custom",
+      options,
+      exportSearchResults,
+    );
+  }
+
+  // If user specified an adapter, use it, loading it on first use
+  if (options.adapter && options.adapter !== "auto") {
+    const name = options.adapter;
+    assertAdapterName(name);
+    return new EverythingClientImpl(
+      new LazyAdapter(() => selectAdapter(name, options)),
+      name,
+      options,
+      exportSearchResults,
+    );
+  }
 
-  // Create a client that uses the selected adapter
-  return new EverythingClientImpl(adapter);
+  // Otherwise fail over along the chain of adapters that can work here
+  const chain = options.adapterChain ?? defaultAdapterChain();
+  const adapter = createFailoverAdapter(
+    chain.map((name) => ({
+      name,
+      create: () => selectAdapter(name, options),
+    })),
+  );
+  return new EverythingClientImpl(
+    adapter,
+    () => adapter.getActiveAdapter(),
+    options,
+    exportSearchResults,
+  );
 }
 
 /**
- * Select the best adapter based on environment and options
+ * Throw for an adapter name that is not built in, before anything loads
  */
-function selectAdapter(options: ClientOptions): BaseAdapter {
-  // If user specified an adapter, use it
-  if (options.adapter && options.adapter !== "auto") {
-    switch (options.adapter) {
-      case "cli":
-        return createCLIAdapter({
-          cliPath: options.cliPath,
-          timeout: options.timeout,
-        });
-      case "ipc":
-        return createIPCAdapter({
-          timeout: options.timeout,
-        });
-      case "http":
-        return createHTTPAdapter({
-          serverUrl: options.serverUrl,
-          username: options.username,
-          password: options.password,
-          timeout: options.timeout,
-        });
-      default:
-        throw new EverythingError(`Unknown adapter: ${options.adapter}`);
-    }
+function assertAdapterName(name: string): void {
+  if (!ADAPTER_NAMES.includes(name as AdapterName)) {
+    throw new EverythingError(`Unknown adapter: ${name}`, {
+      code: "invalid-parameter",
+    });
   }
+}
 
-  // Auto-select the best adapter
-
+/**
+ * Adapters "auto" tries, best first, for the current environment
+ */
+function defaultAdapterChain(): AdapterName[] {
   // In browser environment, only HTTP adapter is available
   if (typeof window !== "undefined" && typeof process === "undefined") {
-    return createHTTPAdapter({
-      serverUrl: options.serverUrl,
-      username: options.username,
-      password: options.password,
-      timeout: options.timeout,
-    });
+    return ["http"];
   }
 
-  // In Node.js environment, select based on platform
-  const isWindows = platform() === "win32";
+  // On Windows prefer IPC, then the CLI; elsewhere HTTP is the only option
+  // that might work remotely
+  return process.platform === "win32" ? ["ipc", "cli", "http"] : ["http"];
+}
 
-  if (isWindows) {
-    try {
-      // Prefer IPC adapter on Windows
+/**
+ * Create a built-in adapter by name, importing its module on demand so that
+ * unused adapters and their dependencies (such as koffi) are never loaded
+ */
+async function selectAdapter(
+  name: AdapterName,
+  options: ClientOptions,
+): Promise<BaseAdapter> {
+  switch (name) {
+    case "cli": {
+      const { createCLIAdapter } = await import("./adapters/cli-adapter");
+      return createCLIAdapter({
+        cliPath: options.cliPath,
+        timeout: options.timeout,
+        strict: options.strict,
+      });
+    }
+    case "ipc": {
+      const { createIPCAdapter } = await import("./adapters/ipc-adapter");
       return createIPCAdapter({
         timeout: options.timeout,
+        strict: options.strict,
       });
-    } catch (error) {
-      // Fall back to CLI if IPC fails
-      return createCLIAdapter({
-        cliPath: options.cliPath,
+    }
+    case "http": {
+      const { createHTTPAdapter } = await import("./adapters/http-adapter");
+      return createHTTPAdapter({
+        serverUrl: options.serverUrl,
+        username: options.username,
+        password: options.password,
         timeout: options.timeout,
+        strict: options.strict,
       });
     }
-  }
-
-  // On non-Windows platforms, HTTP is the only option that might work remotely
-  return createHTTPAdapter({
-    serverUrl: options.serverUrl,
-    username: options.username,
-    password: options.password,
-    timeout: options.timeout,
-  });
-}
-
-/**
- * Implementation of the Everything client
- */
-class EverythingClientImpl implements EverythingClient {
-  private adapter: BaseAdapter;
-
-  constructor(adapter: BaseAdapter) {
-    this.adapter = adapter;
-  }
-
-  /**
-   * Search for files and directories
-   */
-  public async search(
-    query: string,
-    options?: SearchOptions,
-  ): Promise<SearchResult[]> {
-    return this.adapter.search(query, options);
-  }
-
-  /**
-   * Connect to the Everything service
-   */
-  public async connect(): Promise<void> {
-    return this.adapter.connect();
-  }
-
-  /**
-   * Disconnect from the Everything service
-   */
-  public disconnect(): void {
-    this.adapter.disconnect();
-  }
-
-  /**
-   * Check if connected to the Everything service
-   */
-  public isConnected(): boolean {
-    return this.adapter.isConnected();
-  }
-
-  /**
-   * Get the Everything version
-   */
-  public async getVersion(): Promise<string> {
-    return this.adapter.getVersion();
-  }
-
-  /**
-   * Rebuild the Everything index
-   */
-  public async rebuildIndex(): Promise<void> {
-    return this.adapter.rebuildIndex();
-  }
-
-  /**
-   * Get the current search status
-   */
-  public async getSearchStatus(): Promise<SearchStatus> {
-    return this.adapter.getSearchStatus();
-  }
-
-  /**
-   * Monitor file changes
-   */
-  public monitorFileChanges(callback: FileChangeCallback): Unsubscribe {
-    return this.adapter.monitorFileChanges(callback);
+    default:
+      throw new EverythingError(`Unknown adapter: ${name}`, {
+        code: "invalid-parameter",
+      });
   }
 }
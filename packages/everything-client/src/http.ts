@@ -0,0 +1,59 @@
+import { createHTTPAdapter } from "./adapters/http-adapter";
+import { EverythingClientImpl } from "./client-impl";
+import type { ClientOptions, EverythingClient } from "./types";
+import { EverythingUnsupportedError } from "./utils/errors";
+
+export type { BaseAdapter } from "./adapters/base-adapter";
+export {
+  HTTPAdapter,
+  type HTTPAdapterOptions,
+  createHTTPAdapter,
+} from "./adapters/http-adapter";
+export * from "./types";
+export * from "./query";
+export * from "./utils/abort";
+export * from "./utils/capabilities";
+export * from "./utils/change-feed";
+export * from "./utils/circuit-breaker";
+export * from "./utils/csv";
+export * from "./utils/efu";
+export * from "./utils/errors";
+export * from "./utils/fields";
+export * from "./utils/filetime";
+export * from "./utils/operation-queue";
+export * from "./utils/pagination";
+export * from "./utils/retry";
+export * from "./utils/sort";
+export * from "./utils/watch";
+
+/**
+ * Create a new Everything client that talks to the Everything HTTP server.
+ * Unlike the main entry, this one only uses Web APIs, so it also runs in
+ * browsers, workers and edge runtimes; "auto" always picks HTTP.
+ */
+export function createClient(options: ClientOptions = {}): EverythingClient {
+  if (typeof options.adapter === "object") {
+    return new EverythingClientImpl(options.adapter, "custom", options);
+  }
+
+  const { adapter = "auto" } = options;
+  if (adapter !== "auto" && adapter !== "http") {
+    throw new EverythingUnsupportedError(
+      `The ${adapter} adapter needs Node.js; import it from "everything-client"`,
+      adapter,
+      { adapter },
+    );
+  }
+
+  return new EverythingClientImpl(
+    createHTTPAdapter({
+      serverUrl: options.serverUrl,
+      username: options.username,
+      password: options.password,
+      timeout: options.timeout,
+      strict: options.strict,
+    }),
+    "http",
+    options,
+  );
+}
@@ -1,4 +1,6 @@
 export * from "./client";
+export * from "./multi-client";
 export * from "./types";
 export * from "./adapters";
+export * from "./query";
 export * from "./utils";
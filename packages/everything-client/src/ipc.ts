@@ -0,0 +1,14 @@
+export * from "./adapters/ipc-adapter";
+export {
+  type EverythingLib,
+  type IPCRequest,
+  type IPCResponses,
+  type IPCResultPage,
+  decodeIPCResultPage,
+  runIPCRequest,
+  startIPCWorker,
+} from "./adapters/ipc-sdk";
+export {
+  IPCWorkerHost,
+  type IPCWorkerHostOptions,
+} from "./adapters/ipc-worker-host";
@@ -0,0 +1,279 @@
+import { createClient } from "./client";
+import { resolveQuery } from "./query";
+import type {
+  ClientOptions,
+  EverythingClient,
+  MultiClient,
+  MultiClientSource,
+  MultiSearchResultSet,
+  SearchField,
+  SearchOptions,
+  SearchQuery,
+  SearchSortKey,
+  SelectedSearchResult,
+  SourceError,
+  SourcedSearchResult,
+} from "./types";
+import { throwIfAborted } from "./utils/abort";
+import {
+  EverythingError,
+  EverythingSearchError,
+  EverythingUnsupportedError,
+} from "./utils/errors";
+import { sortResults } from "./utils/sort";
+
+/**
+ * Field each sort key compares, which every source must return for the
+ * results to be merged. Type names and run dates are not in results.
+ */
+const SORT_FIELDS: Record<SearchSortKey, SearchField | null> = {
+  name: "name",
+  path: "path",
+  size: "size",
+  extension: "name",
+  "type-name": null,
+  date: "dateModified",
+  "date-created": "dateCreated",
+  "date-accessed": "dateAccessed",
+  attributes: "attributes",
+  "run-count": "runCount",
+  "date-recently-changed": "dateRecentlyChanged",
+  "date-run": null,
+};
+
+/**
+ * Create a client that searches several Everything instances at once
+ * @param sources Clients, options for createClient(), or named sources.
+ * Unnamed sources are named after their server URL, or "source-N".
+ */
+export function createMultiClient(
+  sources: Array<EverythingClient | ClientOptions | MultiClientSource>,
+): MultiClient {
+  return new MultiClientImpl(sources.map(toSource));
+}
+
+/**
+ * A source with its client created
+ */
+interface ResolvedSource {
+  name: string;
+  client: EverythingClient;
+}
+
+/**
+ * Implementation of the multi-client
+ */
+class MultiClientImpl implements MultiClient {
+  private clients: ResolvedSource[];
+
+  /**
+   * @param clients Sources to search, in order
+   */
+  constructor(clients: ResolvedSource[]) {
+    if (clients.length === 0) {
+      throw new EverythingError("Multi-client requires at least one source", {
+        code: "invalid-parameter",
+      });
+    }
+
+    const names = new Set<string>();
+    for (const { name } of clients) {
+      if (names.has(name)) {
+        throw new EverythingError(`Duplicate source name: ${name}`, {
+          code: "invalid-parameter",
+        });
+      }
+      names.add(name);
+    }
+
+    this.clients = clients;
+  }
+
+  /**
+   * Names of the sources
+   */
+  public get sources(): readonly string[] {
+    return this.clients.map(({ name }) => name);
+  }
+
+  /**
+   * Search every source and merge one page of results. Each source is
+   * asked for its first offset + maxResults matches, which is everything
+   * that can end up in the merged page.
+   */
+  public async search<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: SearchOptions<F> = {},
+  ): Promise<MultiSearchResultSet<SelectedSearchResult<F>>> {
+    const queryString = resolveQuery(query);
+    const offset = options.offset ?? 0;
+    const end =
+      typeof options.maxResults === "number"
+        ? offset + options.maxResults
+        : undefined;
+    const sortField = missingSortField(options);
+    // Adapters differ in their default order, so every source is told the
+    // order the merge assumes
+    const sourceOptions: SearchOptions<F> = {
+      ...options,
+      sortBy: options.sortBy ?? "name",
+      sortOrder: options.sortOrder ?? "asc",
+      fields:
+        options.fields && sortField
+          ? [...options.fields, sortField as F]
+          : options.fields,
+      offset: 0,
+      maxResults: end,
+    };
+
+    const settled = await Promise.allSettled(
+      this.clients.map(({ client }) => client.search(query, sourceOptions)),
+    );
+    throwIfAborted(options.signal);
+
+    const items: SourcedSearchResult<SelectedSearchResult<F>>[] = [];
+    const sourceTotals: Record<string, number> = {};
+    const errors: SourceError[] = [];
+    let availableFields: SearchField[] | null = null;
+
+    for (const [index, outcome] of settled.entries()) {
+      const { name } = this.clients[index];
+      if (outcome.status === "rejected") {
+        errors.push({ source: name, error: outcome.reason });
+        continue;
+      }
+
+      const page = outcome.value;
+      sourceTotals[name] = page.totalResults;
+      for (const item of page.items) {
+        items.push({ ...item, source: name });
+      }
+      // Only fields every source returned are known for all items
+      availableFields = (availableFields ?? page.availableFields).filter(
+        (field) => page.availableFields.includes(field),
+      );
+    }
+
+    if (errors.length === this.clients.length) {
+      throw new EverythingSearchError(
+        `All sources failed (${errors.map(({ source, error }) => `${source}: ${error instanceof Error ? error.message : String(error)}`).join("; ")})`,
+        { cause: new AggregateError(errors.map(({ error }) => error)) },
+      );
+    }
+
+    // Ties are broken by full path, as for a single source
+    const merged = sortResults(items, options.sortBy, options.sortOrder)
+      .slice(offset, end)
+      .map((item) => (sortField ? withoutField(item, sortField) : item));
+    const totalResults = Object.values(sourceTotals).reduce(
+      (sum, total) => sum + total,
+      0,
+    );
+    const hasMore = merged.length > 0 && offset + merged.length < totalResults;
+
+    return {
+      items: merged,
+      totalResults,
+      offset,
+      hasMore,
+      query: queryString,
+      availableFields: availableFields ?? [],
+      options: { ...options, offset },
+      sourceTotals,
+      errors,
+      next: async () =>
+        hasMore
+          ? this.search(query, { ...options, offset: offset + merged.length })
+          : null,
+    };
+  }
+
+  /**
+   * Connect to every source, collecting the errors of those that fail
+   */
+  public async connect(): Promise<SourceError[]> {
+    const settled = await Promise.allSettled(
+      this.clients.map(({ client }) => client.connect()),
+    );
+
+    return settled.flatMap((outcome, index) =>
+      outcome.status === "rejected"
+        ? [{ source: this.clients[index].name, error: outcome.reason }]
+        : [],
+    );
+  }
+
+  /**
+   * Disconnect from every source
+   */
+  public disconnect(): void {
+    for (const { client } of this.clients) {
+      client.disconnect();
+    }
+  }
+}
+
+/**
+ * Name a source and create its client if needed
+ */
+function toSource(
+  source: EverythingClient | ClientOptions | MultiClientSource,
+  index: number,
+): ResolvedSource {
+  if ("client" in source && "name" in source) {
+    return { name: source.name, client: toClient(source.client) };
+  }
+
+  const name =
+    isClient(source) || !source.serverUrl
+      ? `source-${index + 1}`
+      : source.serverUrl;
+  return { name, client: toClient(source) };
+}
+
+function toClient(client: EverythingClient | ClientOptions): EverythingClient {
+  return isClient(client) ? client : createClient(client);
+}
+
+function isClient(
+  value: EverythingClient | ClientOptions,
+): value is EverythingClient {
+  return typeof (value as EverythingClient).search === "function";
+}
+
+/**
+ * Find the field the results are merged by, if it has to be requested on
+ * top of the requested fields. The name and path come with every result.
+ * @throws EverythingUnsupportedError for sort keys results do not carry
+ */
+function missingSortField(options: SearchOptions): SearchField | null {
+  const sortBy = options.sortBy ?? "name";
+  const field = SORT_FIELDS[sortBy];
+  if (field === null) {
+    throw new EverythingUnsupportedError(
+      `Results from several sources cannot be merged by "${sortBy}"`,
+      `sortBy:${sortBy}`,
+    );
+  }
+
+  return !options.fields ||
+    field === "name" ||
+    field === "path" ||
+    options.fields.includes(field)
+    ? null
+    : field;
+}
+
+/**
+ * Remove a field that was only requested for merging from a result,
+ * along with the flags that come with attributes
+ */
+function withoutField<T extends object>(item: T, field: SearchField): T {
+  const removed: string[] =
+    field === "attributes"
+      ? [field, "isHidden", "isSystem", "isReadOnly"]
+      : [field];
+  return Object.fromEntries(
+    Object.entries(item).filter(([key]) => !removed.includes(key)),
+  ) as T;
+}
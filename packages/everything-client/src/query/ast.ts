@@ -0,0 +1,108 @@
+/**
+ * Comparison operators accepted before a function value
+ */
+export type ComparisonOperator = "<" | "<=" | ">" | ">=" | "=";
+
+/**
+ * Fields shared by every AST node
+ */
+interface QueryNodeBase {
+  /** Zero-based offset of the first character of the node */
+  start: number;
+  /** Zero-based offset just past the last character of the node */
+  end: number;
+}
+
+/**
+ * Terms separated by whitespace, all of which must match
+ */
+export interface QueryAndNode extends QueryNodeBase {
+  type: "and";
+  children: QueryNode[];
+}
+
+/**
+ * Terms separated by `|`, any of which must match
+ */
+export interface QueryOrNode extends QueryNodeBase {
+  type: "or";
+  children: QueryNode[];
+}
+
+/**
+ * A term prefixed with `!`
+ */
+export interface QueryNotNode extends QueryNodeBase {
+  type: "not";
+  operand: QueryNode;
+}
+
+/**
+ * A sub-query wrapped in `< >`
+ */
+export interface QueryGroupNode extends QueryNodeBase {
+  type: "group";
+  body: QueryNode;
+}
+
+/**
+ * Plain text, possibly quoted and possibly containing wildcards
+ */
+export interface QueryTextNode extends QueryNodeBase {
+  type: "text";
+  /** Text with quotes removed and literal macros expanded */
+  value: string;
+  /** Text as written in the query */
+  raw: string;
+  /** Whether any part of the text was quoted */
+  quoted: boolean;
+}
+
+/**
+ * A search function such as `size:>10mb` or `ext:pdf;doc`
+ */
+export interface QueryFunctionNode extends QueryNodeBase {
+  type: "function";
+  /** Function name as written, lower-cased */
+  name: string;
+  /** Comparison operator, if any */
+  operator: ComparisonOperator | null;
+  /** Value with quotes removed */
+  value: string;
+  /** Lower and upper bound when the value is a `from..to` range */
+  range: [string, string] | null;
+  /** Offset of the first character of the value */
+  valueStart: number;
+}
+
+/**
+ * A search modifier such as `case:` or `regex:`, applied to the
+ * following term when there is one
+ */
+export interface QueryModifierNode extends QueryNodeBase {
+  type: "modifier";
+  name: string;
+  operand: QueryNode | null;
+}
+
+/**
+ * A search macro such as `audio:` or `zip:`
+ */
+export interface QueryMacroNode extends QueryNodeBase {
+  type: "macro";
+  name: string;
+  operand: QueryNode | null;
+}
+
+/**
+ * Any node of a parsed Everything query
+ */
+export type QueryNode =
+  | QueryAndNode
+  | QueryOrNode
+  | QueryNotNode
+  | QueryGroupNode
+  | QueryTextNode
+  | QueryFunctionNode
+  | QueryModifierNode
+  | QueryMacroNode;
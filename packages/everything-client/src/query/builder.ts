@@ -0,0 +1,515 @@
+import type { QueryLike, SearchQuery } from "../types";
+import { EverythingError } from "../utils/errors";
+
+/**
+ * Size units understood by Everything's `size:` function
+ */
+export type SizeUnit = "b" | "kb" | "mb" | "gb" | "tb";
+
+/**
+ * Size constants understood by Everything's `size:` function
+ */
+export type SizeKeyword =
+  | "empty"
+  | "tiny"
+  | "small"
+  | "medium"
+  | "large"
+  | "huge"
+  | "gigantic"
+  | "unknown";
+
+/**
+ * A size in bytes, a size with a unit (e.g. "10mb") or a size keyword
+ */
+export type SizeValue = number | `${number}${SizeUnit}` | SizeKeyword;
+
+/**
+ * An inclusive size range
+ */
+export interface SizeRange {
+  /** Minimum size (inclusive) */
+  min?: SizeValue;
+  /** Maximum size (inclusive) */
+  max?: SizeValue;
+}
+
+/**
+ * Date constants understood by Everything's date functions
+ */
+export type DateKeyword =
+  | "today"
+  | "yesterday"
+  | "thisweek"
+  | "lastweek"
+  | "thismonth"
+  | "lastmonth"
+  | "thisyear"
+  | "lastyear"
+  | "pastweek"
+  | "pastmonth"
+  | "pastyear"
+  | "unknown";
+
+/**
+ * A JavaScript date or a date keyword
+ */
+export type DateValue = Date | DateKeyword;
+
+/**
+ * An inclusive date range
+ */
+export interface DateRange {
+  /** Start of the range (inclusive) */
+  from?: Date;
+  /** End of the range (inclusive) */
+  to?: Date;
+}
+
+/**
+ * File attributes understood by Everything's `attrib:` function
+ */
+export type FileAttribute =
+  | "readonly"
+  | "hidden"
+  | "system"
+  | "directory"
+  | "archive"
+  | "device"
+  | "normal"
+  | "temporary"
+  | "sparse"
+  | "reparse"
+  | "compressed"
+  | "offline"
+  | "notIndexed"
+  | "encrypted";
+
+/**
+ * Modifiers that can be applied to a single term
+ */
+export interface TermOptions {
+  /** Prefix the term with `case:` */
+  matchCase?: boolean;
+  /** Prefix the term with `ww:` */
+  matchWholeWord?: boolean;
+  /** Prefix the term with `path:` */
+  matchPath?: boolean;
+}
+
+/**
+ * Input accepted by the boolean combinators of the query builder
+ */
+export type QueryInput =
+  | QueryBuilder
+  | string
+  | ((query: QueryBuilder) => QueryBuilder | undefined);
+
+const ATTRIBUTE_LETTERS: Record<FileAttribute, string> = {
+  readonly: "R",
+  hidden: "H",
+  system: "S",
+  directory: "D",
+  archive: "A",
+  device: "V",
+  normal: "N",
+  temporary: "T",
+  sparse: "P",
+  reparse: "L",
+  compressed: "C",
+  offline: "O",
+  notIndexed: "I",
+  encrypted: "E",
+};
+
+const SIZE_PATTERN = /^\d+(\.\d+)?(b|kb|mb|gb|tb)?$/i;
+
+const SIZE_KEYWORDS: ReadonlySet<string> = new Set<SizeKeyword>([
+  "empty",
+  "tiny",
+  "small",
+  "medium",
+  "large",
+  "huge",
+  "gigantic",
+  "unknown",
+]);
+
+const DATE_KEYWORDS: ReadonlySet<string> = new Set<DateKeyword>([
+  "today",
+  "yesterday",
+  "thisweek",
+  "lastweek",
+  "thismonth",
+  "lastmonth",
+  "thisyear",
+  "lastyear",
+  "pastweek",
+  "pastmonth",
+  "pastyear",
+  "unknown",
+]);
+
+/**
+ * Characters that force a value to be quoted
+ */
+const SPECIAL_CHARACTERS = /[\s"|<>!:]/;
+
+/**
+ * Create a new query builder
+ */
+export function createQuery(): QueryBuilder {
+  return new QueryBuilder();
+}
+
+/**
+ * Resolve a search query to the string sent to Everything
+ */
+export function resolveQuery(query: SearchQuery): string {
+  return typeof query === "string" ? query : query.build();
+}
+
+/**
+ * Quote a value for use in an Everything query.
+ *
+ * Everything has no escape character inside quotes, so literal double
+ * quotes are emitted with the `quot:` macro between quoted segments.
+ */
+export function quoteValue(value: string, force = false): string {
+  if (!force && value !== "" && !SPECIAL_CHARACTERS.test(value)) {
+    return value;
+  }
+
+  return (
+    value
+      .split('"')
+      .map((segment) => (segment ? `"${segment}"` : ""))
+      .join("quot:") || '""'
+  );
+}
+
+/**
+ * Fluent builder that compiles to Everything search syntax
+ */
+export class QueryBuilder implements QueryLike {
+  private parts: string[] = [];
+
+  /**
+   * Match a literal term, quoting it if necessary
+   */
+  public term(text: string, options: TermOptions = {}): this {
+    return this.push(`${this.modifiers(options)}${quoteValue(text)}`);
+  }
+
+  /**
+   * Match an exact phrase, always quoted
+   */
+  public phrase(text: string, options: TermOptions = {}): this {
+    return this.push(`${this.modifiers(options)}${quoteValue(text, true)}`);
+  }
+
+  /**
+   * Match a wildcard pattern using `*` and `?`
+   */
+  public wildcard(pattern: string, options: TermOptions = {}): this {
+    if (!/[*?]/.test(pattern)) {
+      throw new EverythingError(
+        `Wildcard pattern must contain '*' or '?': ${pattern}`,
+      );
+    }
+
+    return this.term(pattern, options);
+  }
+
+  /**
+   * Match a regular expression
+   */
+  public regex(pattern: string | RegExp): this {
+    const source = typeof pattern === "string" ? pattern : pattern.source;
+    return this.push(`regex:${quoteValue(source)}`);
+  }
+
+  /**
+   * Match any of the given file extensions
+   */
+  public ext(...extensions: string[]): this {
+    const values = extensions
+      .map((extension) => extension.trim().replace(/^\./, ""))
+      .filter(Boolean);
+
+    if (values.length === 0) {
+      throw new EverythingError("At least one extension is required");
+    }
+
+    return this.push(
+      `ext:${values.map((value) => quoteValue(value)).join(";")}`,
+    );
+  }
+
+  /**
+   * Match a size, or an inclusive size range
+   */
+  public size(value: SizeValue | SizeRange): this {
+    if (typeof value !== "object") {
+      return this.push(`size:${formatSize(value)}`);
+    }
+
+    return this.push(`size:${formatRange(value.min, value.max, formatSize)}`);
+  }
+
+  /**
+   * Match the date modified
+   */
+  public dateModified(value: DateValue | DateRange): this {
+    return this.date("dm", value);
+  }
+
+  /**
+   * Match the date created
+   */
+  public dateCreated(value: DateValue | DateRange): this {
+    return this.date("dc", value);
+  }
+
+  /**
+   * Match the date accessed
+   */
+  public dateAccessed(value: DateValue | DateRange): this {
+    return this.date("da", value);
+  }
+
+  /**
+   * Match the date the file last changed in Everything's index
+   */
+  public dateRecentlyChanged(value: DateValue | DateRange): this {
+    return this.date("rc", value);
+  }
+
+  /**
+   * Match files and folders directly inside a folder
+   */
+  public parent(path: string): this {
+    return this.push(`parent:${quoteValue(path)}`);
+  }
+
+  /**
+   * Match files and folders whose full path contains the given path
+   */
+  public path(path: string): this {
+    return this.push(`path:${quoteValue(path)}`);
+  }
+
+  /**
+   * Match files and folders that have all of the given attributes
+   */
+  public attributes(...attributes: FileAttribute[]): this {
+    if (attributes.length === 0) {
+      throw new EverythingError("At least one attribute is required");
+    }
+
+    return this.push(
+      `attrib:${attributes.map((attribute) => ATTRIBUTE_LETTERS[attribute]).join("")}`,
+    );
+  }
+
+  /**
+   * Match file content (slow, not indexed by default)
+   */
+  public content(text: string): this {
+    return this.push(`content:${quoteValue(text)}`);
+  }
+
+  /**
+   * Match files only
+   */
+  public files(): this {
+    return this.push("file:");
+  }
+
+  /**
+   * Match folders only
+   */
+  public folders(): this {
+    return this.push("folder:");
+  }
+
+  /**
+   * Match all of the given queries
+   */
+  public and(...inputs: QueryInput[]): this {
+    for (const input of inputs) {
+      this.push(this.compile(input, inputs.length > 1));
+    }
+
+    return this;
+  }
+
+  /**
+   * Match any of the given queries
+   */
+  public or(...inputs: QueryInput[]): this {
+    if (inputs.length === 0) {
+      throw new EverythingError("At least one query is required");
+    }
+
+    const branches = inputs.map((input) => this.compile(input, true));
+    return this.push(
+      branches.length === 1 ? branches[0] : `<${branches.join(" | ")}>`,
+    );
+  }
+
+  /**
+   * Exclude the given query
+   */
+  public not(input: QueryInput): this {
+    return this.push(`!${this.compile(input, true)}`);
+  }
+
+  /**
+   * Group the given query with `< >`
+   */
+  public group(input: QueryInput): this {
+    return this.push(`<${this.compile(input, false)}>`);
+  }
+
+  /**
+   * Append raw Everything syntax without escaping
+   */
+  public raw(syntax: string): this {
+    return this.push(syntax.trim());
+  }
+
+  /**
+   * Check whether the builder has no conditions
+   */
+  public isEmpty(): boolean {
+    return this.parts.length === 0;
+  }
+
+  /**
+   * Compile the query to an Everything search string
+   */
+  public build(): string {
+    return this.parts.join(" ");
+  }
+
+  /**
+   * Compile the query to an Everything search string
+   */
+  public toString(): string {
+    return this.build();
+  }
+
+  private push(part: string): this {
+    if (part) {
+      this.parts.push(part);
+    }
+
+    return this;
+  }
+
+  private compile(input: QueryInput, wrap: boolean): string {
+    let builder: QueryBuilder;
+
+    if (input instanceof QueryBuilder) {
+      builder = input;
+    } else if (typeof input === "string") {
+      builder = new QueryBuilder().term(input);
+    } else {
+      const created = new QueryBuilder();
+      builder = input(created) || created;
+    }
+
+    if (builder.isEmpty()) {
+      throw new EverythingError("Cannot combine an empty query");
+    }
+
+    const compiled = builder.build();
+    return wrap && builder.parts.length > 1 ? `<${compiled}>` : compiled;
+  }
+
+  private date(fn: string, value: DateValue | DateRange): this {
+    if (value instanceof Date || typeof value === "string") {
+      return this.push(`${fn}:${formatDate(value)}`);
+    }
+
+    return this.push(`${fn}:${formatRange(value.from, value.to, formatDate)}`);
+  }
+
+  private modifiers(options: TermOptions): string {
+    return [
+      options.matchCase ? "case:" : "",
+      options.matchWholeWord ? "ww:" : "",
+      options.matchPath ? "path:" : "",
+    ].join("");
+  }
+}
+
+/**
+ * Format a range as `min..max`, `>=min` or `<=max`
+ */
+function formatRange<T>(
+  min: T | undefined,
+  max: T | undefined,
+  format: (value: T) => string,
+): string {
+  if (min !== undefined && max !== undefined) {
+    return `${format(min)}..${format(max)}`;
+  }
+  if (min !== undefined) {
+    return `>=${format(min)}`;
+  }
+  if (max !== undefined) {
+    return `<=${format(max)}`;
+  }
+
+  throw new EverythingError("A range requires a lower or upper bound");
+}
+
+/**
+ * Format a size value for the `size:` function
+ */
+function formatSize(value: SizeValue): string {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new EverythingError(`Invalid size: ${value}`);
+    }
+    return Math.floor(value).toString();
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (!SIZE_PATTERN.test(normalized) && !SIZE_KEYWORDS.has(normalized)) {
+    throw new EverythingError(`Invalid size: ${value}`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Format a date value for the date functions, using local time
+ */
+function formatDate(value: DateValue): string {
+  if (typeof value === "string") {
+    if (!DATE_KEYWORDS.has(value)) {
+      throw new EverythingError(`Invalid date keyword: ${value}`);
+    }
+    return value;
+  }
+
+  if (Number.isNaN(value.getTime())) {
+    throw new EverythingError("Invalid date");
+  }
+
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  const date = `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+
+  if (
+    value.getHours() === 0 &&
+    value.getMinutes() === 0 &&
+    value.getSeconds() === 0
+  ) {
+    return date;
+  }
+
+  return `${date}T${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}`;
+}
@@ -0,0 +1,5 @@
+export * from "./ast";
+export * from "./builder";
+export * from "./matcher";
+export * from "./parser";
+export * from "./printer";
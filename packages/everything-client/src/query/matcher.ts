@@ -0,0 +1,523 @@
+import type { SearchOptions, SearchResult } from "../types";
+import { EverythingSearchError } from "../utils/errors";
+import type { ComparisonOperator, QueryFunctionNode, QueryNode } from "./ast";
+import { parseQuery } from "./parser";
+
+/**
+ * A result that can be matched locally, optionally with its file content
+ * so that `content:` can be evaluated
+ */
+export interface MatchableResult extends SearchResult {
+  content?: string;
+}
+
+/**
+ * Options for evaluating a query locally
+ */
+export interface QueryMatcherOptions
+  extends Pick<
+    SearchOptions,
+    "matchCase" | "matchWholeWord" | "matchPath" | "regex"
+  > {
+  /** Reference time for relative dates such as `today` (defaults to now) */
+  now?: Date;
+}
+
+/**
+ * Predicate returned by `createQueryMatcher`
+ */
+export type QueryMatcher = (result: MatchableResult) => boolean;
+
+/**
+ * Matching flags that modifiers switch on and off for their operand
+ */
+interface MatchFlags {
+  matchCase: boolean;
+  matchWholeWord: boolean;
+  matchPath: boolean;
+  regex: boolean;
+  wholeFilename: boolean;
+  wildcards: boolean;
+}
+
+const KB = 1024;
+const MB = KB * 1024;
+const GB = MB * 1024;
+const TB = GB * 1024;
+
+const SIZE_UNITS: Record<string, number> = {
+  "": 1,
+  b: 1,
+  kb: KB,
+  mb: MB,
+  gb: GB,
+  tb: TB,
+};
+
+/**
+ * Size ranges of Everything's size constants, as [min, max)
+ */
+const SIZE_KEYWORDS: Record<string, [number, number]> = {
+  empty: [0, 1],
+  tiny: [1, 10 * KB],
+  small: [10 * KB, 100 * KB],
+  medium: [100 * KB, MB],
+  large: [MB, 16 * MB],
+  huge: [16 * MB, 128 * MB],
+  gigantic: [128 * MB, Number.POSITIVE_INFINITY],
+};
+
+/**
+ * Attribute letters of the `attrib:` function and their bit values
+ */
+const ATTRIBUTE_BITS: Record<string, number> = {
+  r: 0x1,
+  h: 0x2,
+  s: 0x4,
+  d: 0x10,
+  a: 0x20,
+  v: 0x40,
+  n: 0x80,
+  t: 0x100,
+  p: 0x200,
+  l: 0x400,
+  c: 0x800,
+  o: 0x1000,
+  i: 0x2000,
+  e: 0x4000,
+};
+
+/**
+ * Extensions of Everything's built-in file type macros
+ */
+const MACRO_EXTENSIONS: Record<string, string[]> = {
+  audio:
+    "aac;ac3;aif;aifc;aiff;au;cda;dts;fla;flac;it;m1a;m2a;m3u;m4a;mid;midi;mka;mod;mp2;mp3;mpa;ogg;opus;ra;rmi;snd;spc;umx;voc;wav;wma;xm".split(
+      ";",
+    ),
+  zip: "7z;ace;arj;bz2;cab;gz;gzip;jar;r00;r01;r02;r03;rar;tar;tgz;xz;z;zip".split(
+    ";",
+  ),
+  doc: "c;chm;cpp;csv;cxx;doc;docm;docx;dot;dotm;dotx;h;hpp;htm;html;hxx;ini;java;lua;mht;mhtml;odt;pdf;potx;potm;ppam;ppsm;ppsx;pps;ppt;pptm;pptx;rtf;sldm;sldx;thmx;txt;vsd;wpd;wps;wri;xlam;xls;xlsb;xlsm;xlsx;xltm;xltx;xml".split(
+    ";",
+  ),
+  exe: "bat;cmd;exe;msi;msp;scr".split(";"),
+  pic: "ani;bmp;gif;ico;jpe;jpeg;jpg;pcx;png;psd;tga;tif;tiff;webp;wmf".split(
+    ";",
+  ),
+  video:
+    "3g2;3gp;3gp2;3gpp;amv;asf;avi;divx;f4v;flv;m2ts;m2v;m4v;mkv;mov;mp4;mp4v;mpe;mpeg;mpg;mts;ogm;ogv;qt;rm;rmvb;swf;ts;vob;webm;wm;wmv".split(
+      ";",
+    ),
+};
+
+/**
+ * Compile an Everything query into a predicate that evaluates it locally.
+ *
+ * Supports terms with wildcards, boolean operators, grouping, the common
+ * modifiers, file type macros and the `ext:`, `size:`, date, `parent:`,
+ * `attrib:`, `runcount:`, `len:`, `depth:`, `startwith:`, `endwith:` and
+ * `content:` functions. Anything else throws an `EverythingSearchError`.
+ */
+export function createQueryMatcher(
+  query: string | QueryNode,
+  options: QueryMatcherOptions = {},
+): QueryMatcher {
+  const ast = typeof query === "string" ? parseQuery(query) : query;
+  const flags: MatchFlags = {
+    matchCase: !!options.matchCase,
+    matchWholeWord: !!options.matchWholeWord,
+    matchPath: !!options.matchPath,
+    regex: !!options.regex,
+    wholeFilename: false,
+    wildcards: true,
+  };
+
+  return compileNode(ast, flags, options.now ?? new Date());
+}
+
+function compileNode(
+  node: QueryNode,
+  flags: MatchFlags,
+  now: Date,
+): QueryMatcher {
+  switch (node.type) {
+    case "and": {
+      const children = node.children.map((child) =>
+        compileNode(child, flags, now),
+      );
+      return (result) => children.every((child) => child(result));
+    }
+    case "or": {
+      const children = node.children.map((child) =>
+        compileNode(child, flags, now),
+      );
+      return (result) => children.some((child) => child(result));
+    }
+    case "not": {
+      const operand = compileNode(node.operand, flags, now);
+      return (result) => !operand(result);
+    }
+    case "group":
+      return compileNode(node.body, flags, now);
+    case "text":
+      return compileText(node.value, flags);
+    case "function":
+      return compileFunction(node, flags, now);
+    case "modifier":
+      return compileModifier(node.name, node.operand, flags, now);
+    case "macro": {
+      const extensions = new Set(MACRO_EXTENSIONS[node.name]);
+      const filter: QueryMatcher = (result) =>
+        !result.isDirectory && extensions.has(extensionOf(result.name));
+      return withOperand(filter, node.operand, flags, now);
+    }
+  }
+}
+
+function compileModifier(
+  name: string,
+  operand: QueryNode | null,
+  flags: MatchFlags,
+  now: Date,
+): QueryMatcher {
+  switch (name) {
+    case "file":
+    case "files":
+      return withOperand((result) => !result.isDirectory, operand, flags, now);
+    case "folder":
+    case "folders":
+      return withOperand((result) => result.isDirectory, operand, flags, now);
+  }
+
+  const toggles: Record<string, Partial<MatchFlags>> = {
+    case: { matchCase: true },
+    nocase: { matchCase: false },
+    ww: { matchWholeWord: true },
+    wholeword: { matchWholeWord: true },
+    noww: { matchWholeWord: false },
+    nowholeword: { matchWholeWord: false },
+    path: { matchPath: true },
+    nopath: { matchPath: false },
+    regex: { regex: true },
+    noregex: { regex: false },
+    wfn: { wholeFilename: true },
+    wholefilename: { wholeFilename: true },
+    nowfn: { wholeFilename: false },
+    nowholefilename: { wholeFilename: false },
+    wildcards: { wildcards: true },
+    nowildcards: { wildcards: false },
+  };
+
+  // Modifiers without a local meaning (e.g. diacritics:) leave flags as-is
+  const modified = { ...flags, ...toggles[name] };
+  return operand ? compileNode(operand, modified, now) : () => true;
+}
+
+function withOperand(
+  filter: QueryMatcher,
+  operand: QueryNode | null,
+  flags: MatchFlags,
+  now: Date,
+): QueryMatcher {
+  if (!operand) {
+    return filter;
+  }
+
+  const matcher = compileNode(operand, flags, now);
+  return (result) => filter(result) && matcher(result);
+}
+
+function compileText(value: string, flags: MatchFlags): QueryMatcher {
+  const useFullPath = flags.matchPath || /[\\/]/.test(value);
+  const target = (result: SearchResult) =>
+    useFullPath ? result.fullPath : result.name;
+  const regexFlags = flags.matchCase ? "" : "i";
+
+  let pattern: RegExp;
+  if (flags.regex) {
+    pattern = new RegExp(value, regexFlags);
+  } else if (flags.wildcards && /[*?]/.test(value)) {
+    pattern = new RegExp(`^${wildcardToRegex(value)}$`, regexFlags);
+  } else if (flags.wholeFilename) {
+    pattern = new RegExp(`^${escapeRegex(value)}$`, regexFlags);
+  } else if (flags.matchWholeWord) {
+    pattern = new RegExp(`(^|\\W)${escapeRegex(value)}(\\W|$)`, regexFlags);
+  } else {
+    pattern = new RegExp(escapeRegex(value), regexFlags);
+  }
+
+  return (result) => pattern.test(target(result));
+}
+
+function compileFunction(
+  node: QueryFunctionNode,
+  flags: MatchFlags,
+  now: Date,
+): QueryMatcher {
+  const caseless = (text: string) =>
+    flags.matchCase ? text : text.toLowerCase();
+
+  switch (node.name) {
+    case "ext": {
+      const extensions = new Set(
+        node.value.split(";").map((extension) => caseless(extension)),
+      );
+      return (result) =>
+        !result.isDirectory &&
+        extensions.has(caseless(extensionOf(result.name, true)));
+    }
+    case "size": {
+      const test = compileComparison(node, parseSize);
+      return (result) => !result.isDirectory && test(result.size);
+    }
+    case "dm":
+    case "datemodified":
+      return compileDate(node, now, (result) => result.dateModified);
+    case "dc":
+    case "datecreated":
+      return compileDate(node, now, (result) => result.dateCreated);
+    case "da":
+    case "dateaccessed":
+      return compileDate(node, now, (result) => result.dateAccessed);
+    case "rc":
+    case "daterecentlychanged":
+    case "recentchange":
+      return compileDate(node, now, (result) => result.dateRecentlyChanged);
+    case "parent":
+    case "infolder":
+    case "nosubfolders": {
+      const parent = caseless(trimSeparators(node.value));
+      return (result) => caseless(trimSeparators(result.path)) === parent;
+    }
+    case "attrib":
+    case "attributes": {
+      const mask = [...node.value.toLowerCase()].reduce(
+        (bits, letter) => bits | (ATTRIBUTE_BITS[letter] ?? 0),
+        0,
+      );
+      return (result) =>
+        result.attributes !== null && (result.attributes & mask) === mask;
+    }
+    case "runcount": {
+      const test = compileComparison(node, parseInteger);
+      return (result) => test(result.runCount);
+    }
+    case "len": {
+      const test = compileComparison(node, parseInteger);
+      return (result) => test(result.name.length);
+    }
+    case "depth":
+    case "parents": {
+      const test = compileComparison(node, parseInteger);
+      return (result) =>
+        test(trimSeparators(result.path).split(/[\\/]/).filter(Boolean).length);
+    }
+    case "startwith": {
+      const prefix = caseless(node.value);
+      return (result) => caseless(result.name).startsWith(prefix);
+    }
+    case "endwith": {
+      const suffix = caseless(node.value);
+      return (result) => caseless(result.name).endsWith(suffix);
+    }
+    case "content":
+    case "utf8content":
+    case "ansicontent":
+    case "utf16content": {
+      const text = caseless(node.value);
+      return (result) =>
+        result.content !== undefined && caseless(result.content).includes(text);
+    }
+    default:
+      throw new EverythingSearchError(
+        `Search function '${node.name}:' cannot be evaluated locally`,
+      );
+  }
+}
+
+/**
+ * Compile a numeric comparison, range or keyword into a predicate
+ */
+function compileComparison(
+  node: QueryFunctionNode,
+  parse: (value: string) => [number, number],
+): (value: number | null) => boolean {
+  let test: (value: number) => boolean;
+
+  // `unknown` matches exactly the results whose metadata is missing
+  const values = node.range ?? [node.value];
+  if (values.some((value) => value.toLowerCase() === "unknown")) {
+    if (node.range || (node.operator !== null && node.operator !== "=")) {
+      throw new EverythingSearchError(
+        `'${node.name}:' cannot compare against unknown`,
+      );
+    }
+    return (value) => value === null;
+  }
+
+  if (node.range) {
+    const [min] = parse(node.range[0]);
+    const [, max] = parse(node.range[1]);
+    test = (value) => value >= min && value < max;
+  } else {
+    const [min, max] = parse(node.value);
+    test = compareInterval(node.operator, min, max);
+  }
+
+  // Unknown metadata never satisfies a comparison
+  return (value) => value !== null && test(value);
+}
+
+/**
+ * Compare a value against the half-open interval [min, max) a literal stands for
+ */
+function compareInterval(
+  operator: ComparisonOperator | null,
+  min: number,
+  max: number,
+): (value: number) => boolean {
+  switch (operator) {
+    case ">":
+      return (value) => value >= max;
+    case ">=":
+      return (value) => value >= min;
+    case "<":
+      return (value) => value < min;
+    case "<=":
+      return (value) => value < max;
+    default:
+      return (value) => value >= min && value < max;
+  }
+}
+
+function compileDate(
+  node: QueryFunctionNode,
+  now: Date,
+  select: (result: SearchResult) => Date | null,
+): QueryMatcher {
+  const test = compileComparison(node, (value) => parseDate(value, now));
+  return (result) => test(select(result)?.getTime() ?? null);
+}
+
+function parseInteger(value: string): [number, number] {
+  const number = Number.parseInt(value, 10);
+  return [number, number + 1];
+}
+
+function parseSize(value: string): [number, number] {
+  const keyword = SIZE_KEYWORDS[value.toLowerCase()];
+  if (keyword) {
+    return keyword;
+  }
+
+  const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb|tb)?$/i.exec(value);
+  if (!match) {
+    throw new EverythingSearchError(`Invalid size: ${value}`);
+  }
+
+  const bytes = Math.round(
+    Number(match[1]) * SIZE_UNITS[(match[2] ?? "").toLowerCase()],
+  );
+  return [bytes, bytes + 1];
+}
+
+/**
+ * Convert a date keyword or literal into the interval of time it covers
+ */
+function parseDate(value: string, now: Date): [number, number] {
+  const day = (offset: number) =>
+    new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+  const weekStart = (offset: number) =>
+    day(offset * 7 - ((now.getDay() + 6) % 7));
+  const month = (offset: number) =>
+    new Date(now.getFullYear(), now.getMonth() + offset, 1);
+  const year = (offset: number) => new Date(now.getFullYear() + offset, 0, 1);
+  const span = (start: Date, end: Date): [number, number] => [
+    start.getTime(),
+    end.getTime(),
+  ];
+
+  switch (value.toLowerCase()) {
+    case "today":
+      return span(day(0), day(1));
+    case "yesterday":
+      return span(day(-1), day(0));
+    case "thisweek":
+      return span(weekStart(0), weekStart(1));
+    case "lastweek":
+      return span(weekStart(-1), weekStart(0));
+    case "thismonth":
+      return span(month(0), month(1));
+    case "lastmonth":
+      return span(month(-1), month(0));
+    case "thisyear":
+      return span(year(0), year(1));
+    case "lastyear":
+      return span(year(-1), year(0));
+    case "pastweek":
+      return [now.getTime() - 7 * 86400000, now.getTime() + 1];
+    case "pastmonth":
+      return [new Date(now).setMonth(now.getMonth() - 1), now.getTime() + 1];
+    case "pastyear":
+      return [
+        new Date(now).setFullYear(now.getFullYear() - 1),
+        now.getTime() + 1,
+      ];
+  }
+
+  const match =
+    /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2})(?:T(\d{1,2}):(\d{2})(?::(\d{2}))?)?)?)?$/.exec(
+      value,
+    );
+  if (!match) {
+    throw new EverythingSearchError(`Unsupported date: ${value}`);
+  }
+
+  const parts = match.slice(1).map((part) => (part ? Number(part) : undefined));
+  const [y, m, d, h, min, s] = parts as Array<number | undefined>;
+  const start = new Date(
+    y ?? 0,
+    (m ?? 1) - 1,
+    d ?? 1,
+    h ?? 0,
+    min ?? 0,
+    s ?? 0,
+  );
+  const end = new Date(start);
+
+  // The literal covers its own precision: a year, a month, a day, ...
+  if (s !== undefined) end.setSeconds(end.getSeconds() + 1);
+  else if (min !== undefined) end.setMinutes(end.getMinutes() + 1);
+  else if (d !== undefined) end.setDate(end.getDate() + 1);
+  else if (m !== undefined) end.setMonth(end.getMonth() + 1);
+  else end.setFullYear(end.getFullYear() + 1);
+
+  return span(start, end);
+}
+
+/**
+ * Get the extension of a file name, lower-cased unless asked to keep case
+ */
+function extensionOf(name: string, keepCase = false): string {
+  const dot = name.lastIndexOf(".");
+  const extension = dot > 0 ? name.slice(dot + 1) : "";
+  return keepCase ? extension : extension.toLowerCase();
+}
+
+function trimSeparators(path: string): string {
+  return path.replace(/[\\/]+$/, "");
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function wildcardToRegex(pattern: string): string {
+  return pattern
+    .split("")
+    .map((char) =>
+      char === "*" ? ".*" : char === "?" ? "." : escapeRegex(char),
+    )
+    .join("");
+}
@@ -0,0 +1,524 @@
+import { EverythingQuerySyntaxError } from "../utils/errors";
+import type {
+  ComparisonOperator,
+  QueryFunctionNode,
+  QueryNode,
+  QueryTextNode,
+} from "./ast";
+
+/**
+ * Kind of value a search function accepts, used for validation
+ */
+type FunctionValueKind =
+  | "size"
+  | "date"
+  | "number"
+  | "attributes"
+  | "text"
+  | "optional";
+
+/**
+ * Search functions that take a value, keyed by lower-cased name
+ */
+const FUNCTIONS: Record<string, FunctionValueKind> = {
+  size: "size",
+  ext: "text",
+  type: "text",
+  dm: "date",
+  datemodified: "date",
+  dc: "date",
+  datecreated: "date",
+  da: "date",
+  dateaccessed: "date",
+  rc: "date",
+  daterecentlychanged: "date",
+  recentchange: "date",
+  dr: "date",
+  daterun: "date",
+  parent: "text",
+  infolder: "text",
+  nosubfolders: "text",
+  attrib: "attributes",
+  attributes: "attributes",
+  content: "text",
+  ansicontent: "text",
+  utf8content: "text",
+  utf16content: "text",
+  utf16becontent: "text",
+  startwith: "text",
+  endwith: "text",
+  child: "text",
+  childfile: "text",
+  childfolder: "text",
+  shell: "text",
+  filelist: "text",
+  len: "number",
+  runcount: "number",
+  childcount: "number",
+  childfilecount: "number",
+  childfoldercount: "number",
+  depth: "number",
+  parents: "number",
+  width: "number",
+  height: "number",
+  bitdepth: "number",
+  dupe: "optional",
+  namepartdupe: "optional",
+  sizedupe: "optional",
+  dmdupe: "optional",
+  dcdupe: "optional",
+  attribdupe: "optional",
+  empty: "optional",
+  root: "optional",
+};
+
+/**
+ * Search modifiers, which apply to the following term
+ */
+const MODIFIERS: ReadonlySet<string> = new Set([
+  "ascii",
+  "utf8",
+  "case",
+  "nocase",
+  "diacritics",
+  "nodiacritics",
+  "file",
+  "files",
+  "folder",
+  "folders",
+  "path",
+  "nopath",
+  "regex",
+  "noregex",
+  "wfn",
+  "wholefilename",
+  "nowfn",
+  "nowholefilename",
+  "ww",
+  "wholeword",
+  "noww",
+  "nowholeword",
+  "wildcards",
+  "nowildcards",
+  "prefix",
+  "noprefix",
+  "suffix",
+  "nosuffix",
+]);
+
+/**
+ * Search macros that expand to a filter
+ */
+const MACROS: ReadonlySet<string> = new Set([
+  "audio",
+  "zip",
+  "doc",
+  "exe",
+  "pic",
+  "video",
+]);
+
+/**
+ * Macros that stand for a literal character inside a term
+ */
+const LITERAL_MACROS: Record<string, string> = {
+  quot: '"',
+  apos: "'",
+  amp: "&",
+  lt: "<",
+  gt: ">",
+};
+
+const SIZE_VALUE =
+  /^(\d+(\.\d+)?\s*(b|kb|mb|gb|tb)?|empty|tiny|small|medium|large|huge|gigantic|unknown)$/i;
+const NUMBER_VALUE = /^\d+$/;
+const ATTRIBUTES_VALUE = /^[rhsdavntplcoie]+$/i;
+const DATE_VALUE = /^[\w\-/.:]+$/;
+
+/**
+ * Result of validating a query
+ */
+export interface QueryValidationResult {
+  /** Whether the query has no syntax errors */
+  valid: boolean;
+  /** All syntax errors found, in order of position */
+  errors: EverythingQuerySyntaxError[];
+  /** Best-effort AST, also available for invalid queries */
+  ast: QueryNode;
+}
+
+/**
+ * Parse an Everything query into an AST, throwing on the first syntax error
+ */
+export function parseQuery(query: string): QueryNode {
+  const result = validateQuery(query);
+  if (!result.valid) {
+    throw result.errors[0];
+  }
+  return result.ast;
+}
+
+/**
+ * Parse an Everything query and collect all syntax errors
+ */
+export function validateQuery(query: string): QueryValidationResult {
+  const parser = new QueryParser(query);
+  const ast = parser.parse();
+  const errors = parser.errors.sort((a, b) => a.position - b.position);
+
+  return { valid: errors.length === 0, errors, ast };
+}
+
+/**
+ * Find the `..` separating a range, ignoring quoted segments
+ */
+function rangeSeparator(raw: string): number {
+  let quoted = false;
+
+  for (let i = 0; i < raw.length - 1; i++) {
+    if (raw[i] === '"') {
+      quoted = !quoted;
+    } else if (!quoted && raw[i] === "." && raw[i + 1] === ".") {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Remove the quotes from a range bound
+ */
+function unquote(raw: string): string {
+  return raw.replace(/"/g, "");
+}
+
+/**
+ * Recursive descent parser for Everything search syntax.
+ *
+ * Precedence follows Everything: `!` binds tightest, then `|`, then the
+ * implicit AND between whitespace-separated terms.
+ */
+class QueryParser {
+  public readonly errors: EverythingQuerySyntaxError[] = [];
+  private pos = 0;
+  private depth = 0;
+
+  constructor(private readonly input: string) {}
+
+  public parse(): QueryNode {
+    return this.parseAnd();
+  }
+
+  private parseAnd(): QueryNode {
+    const start = this.pos;
+    const children: QueryNode[] = [];
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.eof()) break;
+
+      const char = this.peek();
+      if (char === ">") {
+        if (this.depth > 0) break;
+        this.error("Unexpected '>' without matching '<'", this.pos);
+        this.pos++;
+        continue;
+      }
+      if (char === "|") {
+        this.error("Missing operand before '|'", this.pos);
+        this.pos++;
+        continue;
+      }
+
+      const node = this.parseOr();
+      if (node) {
+        children.push(node);
+      }
+    }
+
+    if (children.length === 1) {
+      return children[0];
+    }
+
+    return { type: "and", children, start, end: this.pos };
+  }
+
+  private parseOr(): QueryNode | null {
+    const start = this.pos;
+    const first = this.parseUnary();
+    const children: QueryNode[] = first ? [first] : [];
+
+    while (true) {
+      const save = this.pos;
+      this.skipWhitespace();
+      if (this.peek() !== "|") {
+        this.pos = save;
+        break;
+      }
+
+      const operatorPos = this.pos;
+      this.pos++;
+      this.skipWhitespace();
+      if (this.eof() || this.peek() === "|" || this.peek() === ">") {
+        this.error("Missing operand after '|'", operatorPos);
+        continue;
+      }
+
+      const node = this.parseUnary();
+      if (node) {
+        children.push(node);
+      }
+    }
+
+    if (children.length <= 1) {
+      return children[0] ?? null;
+    }
+
+    return { type: "or", children, start, end: this.pos };
+  }
+
+  private parseUnary(): QueryNode | null {
+    if (this.peek() !== "!") {
+      return this.parsePrimary();
+    }
+
+    const start = this.pos;
+    this.pos++;
+    if (this.atBoundary()) {
+      this.error("Missing operand after '!'", start);
+      return null;
+    }
+
+    const operand = this.parseUnary();
+    if (!operand) {
+      return null;
+    }
+
+    return { type: "not", operand, start, end: this.pos };
+  }
+
+  private parsePrimary(): QueryNode | null {
+    if (this.peek() !== "<") {
+      return this.parseTerm();
+    }
+
+    const start = this.pos;
+    this.pos++;
+    this.depth++;
+    const body = this.parseAnd();
+    this.depth--;
+
+    if (this.peek() === ">") {
+      this.pos++;
+    } else {
+      this.error("Unclosed '<'", start);
+    }
+
+    if (body.type === "and" && body.children.length === 0) {
+      this.error("Empty group", start, this.pos - start);
+      return null;
+    }
+
+    return { type: "group", body, start, end: this.pos };
+  }
+
+  private parseTerm(): QueryNode | null {
+    const start = this.pos;
+    const match = /^([a-z][a-z0-9]*):/i.exec(this.input.slice(this.pos));
+
+    if (match) {
+      const name = match[1].toLowerCase();
+
+      if (MODIFIERS.has(name) || MACROS.has(name)) {
+        this.pos += match[0].length;
+        const operand = this.atBoundary() ? null : this.parsePrimary();
+
+        if (name === "regex" && operand?.type === "text") {
+          this.validateRegex(operand);
+        }
+
+        return {
+          type: MODIFIERS.has(name) ? "modifier" : "macro",
+          name,
+          operand,
+          start,
+          end: this.pos,
+        };
+      }
+
+      if (name in FUNCTIONS) {
+        return this.parseFunction(name, match[0].length);
+      }
+    }
+
+    const word = this.readWord();
+    return { type: "text", ...word, start, end: this.pos };
+  }
+
+  private parseFunction(name: string, prefixLength: number): QueryFunctionNode {
+    const start = this.pos;
+    this.pos += prefixLength;
+
+    const operatorMatch = /^(<=|>=|<|>|=)/.exec(this.input.slice(this.pos));
+    const operator = (operatorMatch?.[1] ?? null) as ComparisonOperator | null;
+    this.pos += operatorMatch ? operatorMatch[1].length : 0;
+
+    const valueStart = this.pos;
+    const word = this.readWord();
+    const kind = FUNCTIONS[name];
+    let range: [string, string] | null = null;
+
+    if (word.raw === "") {
+      if (kind !== "optional") {
+        this.error(`Missing value for '${name}:'`, start, this.pos - start);
+      }
+    } else if (rangeSeparator(word.raw) !== -1) {
+      const separator = rangeSeparator(word.raw);
+      range = [
+        unquote(word.raw.slice(0, separator)),
+        unquote(word.raw.slice(separator + 2)),
+      ];
+
+      if (operator) {
+        this.error(
+          "A range cannot be combined with a comparison operator",
+          start + prefixLength,
+          operator.length,
+        );
+      }
+
+      this.validateValue(name, kind, range[0], valueStart);
+      this.validateValue(name, kind, range[1], valueStart + separator + 2);
+    } else {
+      this.validateValue(name, kind, word.value, valueStart, word.raw.length);
+    }
+
+    return {
+      type: "function",
+      name,
+      operator,
+      value: word.value,
+      range,
+      valueStart,
+      start,
+      end: this.pos,
+    };
+  }
+
+  /**
+   * Read a run of characters up to whitespace, `|`, `<` or `>`, honouring
+   * double-quoted segments and decoding literal macros such as `quot:`
+   */
+  private readWord(): Pick<QueryTextNode, "value" | "raw" | "quoted"> {
+    const start = this.pos;
+    let value = "";
+    let quoted = false;
+
+    while (!this.eof()) {
+      const char = this.peek();
+
+      if (char === '"') {
+        const close = this.input.indexOf('"', this.pos + 1);
+        quoted = true;
+
+        if (close === -1) {
+          this.error(
+            "Unterminated quote",
+            this.pos,
+            this.input.length - this.pos,
+          );
+          value += this.input.slice(this.pos + 1);
+          this.pos = this.input.length;
+          break;
+        }
+
+        value += this.input.slice(this.pos + 1, close);
+        this.pos = close + 1;
+        continue;
+      }
+
+      if (/\s/.test(char) || char === "|" || char === "<" || char === ">") {
+        break;
+      }
+
+      const literal = /^([a-z]+):/i.exec(this.input.slice(this.pos));
+      const expansion = literal && LITERAL_MACROS[literal[1].toLowerCase()];
+      if (literal && expansion) {
+        value += expansion;
+        this.pos += literal[0].length;
+        continue;
+      }
+
+      value += char;
+      this.pos++;
+    }
+
+    return { value, raw: this.input.slice(start, this.pos), quoted };
+  }
+
+  private validateValue(
+    name: string,
+    kind: FunctionValueKind,
+    value: string,
+    position: number,
+    length = value.length,
+  ): void {
+    const patterns: Partial<Record<FunctionValueKind, RegExp>> = {
+      size: SIZE_VALUE,
+      number: NUMBER_VALUE,
+      attributes: ATTRIBUTES_VALUE,
+      date: DATE_VALUE,
+    };
+    const pattern = patterns[kind];
+
+    if (value === "") {
+      this.error(`Missing value for '${name}:'`, position, 0);
+    } else if (pattern && !pattern.test(value)) {
+      this.error(
+        `Invalid ${kind} value '${value}' for '${name}:'`,
+        position,
+        length,
+      );
+    }
+  }
+
+  private validateRegex(operand: QueryTextNode): void {
+    try {
+      new RegExp(operand.value);
+    } catch (error) {
+      this.error(
+        error instanceof Error
+          ? error.message
+          : `Invalid regular expression: ${String(error)}`,
+        operand.start,
+        operand.end - operand.start,
+      );
+    }
+  }
+
+  private atBoundary(): boolean {
+    const char = this.peek();
+    return this.eof() || /\s/.test(char) || char === "|" || char === ">";
+  }
+
+  private skipWhitespace(): void {
+    while (!this.eof() && /\s/.test(this.peek())) {
+      this.pos++;
+    }
+  }
+
+  private peek(): string {
+    return this.input.charAt(this.pos);
+  }
+
+  private eof(): boolean {
+    return this.pos >= this.input.length;
+  }
+
+  private error(message: string, position: number, length = 1): void {
+    this.errors.push(
+      new EverythingQuerySyntaxError(message, this.input, position, length),
+    );
+  }
+}
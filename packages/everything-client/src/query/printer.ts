@@ -0,0 +1,56 @@
+import type { QueryNode } from "./ast";
+import { quoteValue } from "./builder";
+import { parseQuery } from "./parser";
+
+/**
+ * Pretty-print a query in canonical Everything syntax.
+ *
+ * Strings are parsed first, so formatting also normalizes whitespace,
+ * operator spacing and needless quotes. Invalid strings throw an
+ * `EverythingQuerySyntaxError`.
+ */
+export function formatQuery(query: string | QueryNode): string {
+  return printNode(typeof query === "string" ? parseQuery(query) : query);
+}
+
+function printNode(node: QueryNode): string {
+  switch (node.type) {
+    case "and":
+      return node.children.map((child) => printNode(child)).join(" ");
+    case "or":
+      return node.children.map((child) => printOperand(child)).join(" | ");
+    case "not":
+      return `!${printOperand(node.operand)}`;
+    case "group":
+      return `<${printNode(node.body)}>`;
+    case "text":
+      // Unquoted text is kept as written, so that `album:beatles` stays a
+      // property search rather than becoming a phrase
+      return node.quoted ? quoteValue(node.value) : node.raw;
+    case "function": {
+      const value = node.range
+        ? `${printValue(node.range[0])}..${printValue(node.range[1])}`
+        : printValue(node.value);
+      return `${node.name}:${node.operator ?? ""}${value}`;
+    }
+    case "modifier":
+    case "macro":
+      return `${node.name}:${node.operand ? printOperand(node.operand) : ""}`;
+  }
+}
+
+/**
+ * Print a node that binds tighter than AND, grouping it when needed
+ */
+function printOperand(node: QueryNode): string {
+  return node.type === "and" || node.type === "or"
+    ? `<${printNode(node)}>`
+    : printNode(node);
+}
+
+/**
+ * Print a function value, quoting only what would end the value early
+ */
+function printValue(value: string): string {
+  return /[\s"|<>]/.test(value) ? quoteValue(value, true) : value;
+}
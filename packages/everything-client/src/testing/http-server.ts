@@ -0,0 +1,310 @@
+import { type Dirent, readdirSync, statSync } from "node:fs";
+import {
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+  createServer,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { join, relative, sep } from "node:path";
+import {
+  type MemoryAdapter,
+  type MemoryFile,
+  createMemoryAdapter,
+} from "../adapters/memory-adapter";
+import type { SearchOptions, SearchResult } from "../types";
+import { EverythingError } from "../utils/errors";
+import { dateToFileTime } from "../utils/filetime";
+
+/**
+ * Options for the HTTP server simulator
+ */
+export interface HTTPServerSimulatorOptions {
+  /** Files and folders to serve */
+  files?: MemoryFile[];
+  /** Directory on disk whose contents are served as the index */
+  fixtureDir?: string;
+  /** Windows-style path that fixtureDir is mapped to */
+  fixtureRoot?: string;
+  /** Username required through HTTP Basic authentication */
+  username?: string;
+  /** Password required through HTTP Basic authentication */
+  password?: string;
+  /** Reference time for relative dates such as `today` (defaults to now) */
+  now?: () => Date;
+}
+
+/**
+ * Default simulator options
+ */
+const DEFAULT_OPTIONS: HTTPServerSimulatorOptions = {
+  files: [],
+  fixtureRoot: "C:\\Fixtures",
+};
+
+/**
+ * Default number of results per page, as served by Everything
+ */
+const DEFAULT_COUNT = 32;
+
+/**
+ * Sort names of the Everything HTTP server mapped to search options
+ */
+const SORT_KEYS: Record<string, SearchOptions["sortBy"]> = {
+  name: "name",
+  path: "path",
+  size: "size",
+  extension: "extension",
+  type: "type-name",
+  date: "date",
+  date_modified: "date",
+  date_created: "date-created",
+  date_accessed: "date-accessed",
+  attributes: "attributes",
+  "run-count": "run-count",
+  run_count: "run-count",
+  date_recently_changed: "date-recently-changed",
+  date_run: "date-run",
+};
+
+/**
+ * Create a new HTTP server simulator with the provided options
+ */
+export function createHTTPServerSimulator(
+  options: HTTPServerSimulatorOptions = {},
+): HTTPServerSimulator {
+  return new HTTPServerSimulator(options);
+}
+
+/**
+ * Stand-in for Everything's built-in HTTP server that answers the same
+ * query parameters as the real one, for end-to-end tests of HTTPAdapter
+ */
+export class HTTPServerSimulator {
+  private options: HTTPServerSimulatorOptions;
+  private index: MemoryAdapter;
+  private server: Server | null = null;
+  private baseUrl: string | null = null;
+
+  /**
+   * Create a new HTTP server simulator
+   */
+  constructor(options: HTTPServerSimulatorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    const files = [...(this.options.files ?? [])];
+    if (this.options.fixtureDir) {
+      files.push(
+        ...readFixtureDir(
+          this.options.fixtureDir,
+          this.options.fixtureRoot ?? "C:\\Fixtures",
+        ),
+      );
+    }
+
+    this.index = createMemoryAdapter({ files, now: this.options.now });
+  }
+
+  /**
+   * URL the simulator is listening on, e.g. "http://127.0.0.1:51234"
+   */
+  public get url(): string {
+    if (!this.baseUrl) {
+      throw new EverythingError("HTTP server simulator is not listening");
+    }
+    return this.baseUrl;
+  }
+
+  /**
+   * Start listening, on a random free port unless one is given
+   * @returns Promise resolving to the base URL of the simulator
+   */
+  public async listen(port = 0, host = "127.0.0.1"): Promise<string> {
+    if (this.server) {
+      return this.url;
+    }
+
+    const server = createServer((request, response) => {
+      this.handle(request, response).catch((error) => {
+        this.send(response, 500, "text/plain", String(error));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+
+    const address = server.address() as AddressInfo;
+    this.server = server;
+    this.baseUrl = `http://${host}:${address.port}`;
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop listening
+   */
+  public async close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    this.baseUrl = null;
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Handle a single request the way Everything's HTTP server does
+   */
+  public async handle(
+    request: IncomingMessage,
+    response: ServerResponse,
+  ): Promise<void> {
+    if (!this.isAuthorized(request)) {
+      response.setHeader("WWW-Authenticate", 'Basic realm="Everything"');
+      this.send(response, 401, "text/plain", "401 Unauthorized");
+      return;
+    }
+
+    const params = new URL(request.url ?? "/", "http://localhost").searchParams;
+    const flag = (name: string) => params.get(name) === "1";
+
+    if (!flag("j")) {
+      this.send(
+        response,
+        200,
+        "text/html",
+        "<html><body>Everything HTTP server simulator</body></html>",
+      );
+      return;
+    }
+
+    if (flag("rebuild")) {
+      await this.index.rebuildIndex();
+    }
+
+    const count = Number.parseInt(params.get("c") ?? "", 10);
+    const offset = Number.parseInt(params.get("o") ?? "", 10);
+    const sort = params.get("sort") ?? "name";
+
+    const page = await this.index.search(params.get("s") ?? "", {
+      matchCase: flag("i"),
+      matchWholeWord: flag("w"),
+      matchPath: flag("p"),
+      regex: flag("r"),
+      offset: Number.isNaN(offset) ? 0 : offset,
+      maxResults: flag("count")
+        ? 0
+        : Number.isNaN(count)
+          ? DEFAULT_COUNT
+          : count,
+      sortBy: SORT_KEYS[sort] ?? "name",
+      sortOrder: params.get("ascending") === "0" ? "desc" : "asc",
+    });
+
+    const body = {
+      totalResults: page.totalResults,
+      results: page.items.map((item) => this.toJSON(item, flag)),
+    };
+
+    this.send(response, 200, "application/json", JSON.stringify(body));
+  }
+
+  /**
+   * Serialize a result with only the columns that were requested
+   */
+  private toJSON(
+    item: SearchResult,
+    flag: (name: string) => boolean,
+  ): Record<string, string | number> {
+    const json: Record<string, string | number> = {
+      type: item.isDirectory ? "folder" : "file",
+      name: item.name,
+    };
+
+    if (flag("path_column")) json.path = item.path;
+    if (flag("size_column"))
+      json.size = item.size === null ? "" : `${item.size}`;
+    if (flag("date_modified_column"))
+      json.date_modified = toFileTime(item.dateModified);
+    if (flag("date_created_column"))
+      json.date_created = toFileTime(item.dateCreated);
+    if (flag("date_accessed_column"))
+      json.date_accessed = toFileTime(item.dateAccessed);
+    if (flag("attributes_column")) json.attributes = item.attributes ?? "";
+    if (flag("run_count_column")) json.run_count = item.runCount ?? "";
+    if (flag("date_recently_changed_column"))
+      json.date_recently_changed = toFileTime(item.dateRecentlyChanged);
+
+    return json;
+  }
+
+  private isAuthorized(request: IncomingMessage): boolean {
+    const { username, password } = this.options;
+    if (!username && !password) {
+      return true;
+    }
+
+    const expected = `Basic ${Buffer.from(`${username ?? ""}:${password ?? ""}`).toString("base64")}`;
+    return request.headers.authorization === expected;
+  }
+
+  private send(
+    response: ServerResponse,
+    status: number,
+    contentType: string,
+    body: string,
+  ): void {
+    response.statusCode = status;
+    response.setHeader("Content-Type", `${contentType}; charset=utf-8`);
+    response.end(body);
+  }
+}
+
+/**
+ * Convert a date to a Windows FILETIME string, empty when unknown
+ */
+function toFileTime(date: Date | null): string {
+  return date ? dateToFileTime(date).toString() : "";
+}
+
+/**
+ * Walk a fixture directory and describe its contents as Windows paths
+ */
+function readFixtureDir(directory: string, root: string): MemoryFile[] {
+  const files: MemoryFile[] = [];
+
+  const walk = (current: string) => {
+    const entries: Dirent[] = readdirSync(current, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const absolute = join(current, entry.name);
+      const stats = statSync(absolute);
+      const windowsPath = `${root.replace(/\\+$/, "")}\\${relative(directory, absolute).split(sep).join("\\")}`;
+
+      files.push({
+        path: windowsPath,
+        size: stats.isDirectory() ? undefined : stats.size,
+        dateModified: stats.mtime,
+        dateCreated: stats.birthtime,
+        dateAccessed: stats.atime,
+        isDirectory: stats.isDirectory(),
+        attributes: entry.name.startsWith(".") ? 0x2 : 0,
+      });
+
+      if (stats.isDirectory()) {
+        walk(absolute);
+      }
+    }
+  };
+
+  walk(directory);
+  return files;
+}
@@ -1,9 +1,22 @@
+import type { BaseAdapter } from "../adapters/base-adapter";
+import type { EverythingErrorCode } from "../utils/errors";
+
+/**
+ * Name of a built-in adapter.
+ */
+export type AdapterName = "cli" | "ipc" | "http";
+
 /**
  * Client options for configuring the Everything client.
  */
 export interface ClientOptions {
-  /** Adapter type to use for communication with Everything */
-  adapter?: "cli" | "ipc" | "http" | "auto";
+  /** Adapter type to use for communication with Everything, or an adapter instance */
+  adapter?: AdapterName | "auto" | BaseAdapter;
+  /**
+   * Adapters tried in order by "auto" (defaults to IPC, CLI then HTTP on
+   * Windows and HTTP elsewhere)
+   */
+  adapterChain?: AdapterName[];
   /** Timeout in milliseconds for operations */
   timeout?: number;
   /** Path to the Everything CLI executable */
@@ -16,12 +29,102 @@ export interface ClientOptions {
   username?: string;
   /** Password for HTTP authentication */
   password?: string;
+  /**
+   * Throw EverythingUnsupportedError for search options the adapter would
+   * otherwise ignore
+   */
+  strict?: boolean;
+  /** Retry failed calls that may succeed on another attempt */
+  retry?: RetryOptions;
+  /** Stop calling Everything for a while after repeated failures */
+  circuitBreaker?: CircuitBreakerOptions;
+}
+
+/**
+ * Options for retrying failed calls with exponential backoff.
+ */
+export interface RetryOptions {
+  /** Attempts per call, including the first (defaults to 3) */
+  maxAttempts?: number;
+  /** Milliseconds before the first retry (defaults to 200) */
+  initialDelay?: number;
+  /** Longest delay between attempts (defaults to 5000) */
+  maxDelay?: number;
+  /** Factor the delay grows by after each attempt (defaults to 2) */
+  backoff?: number;
+  /** Fraction of each delay that is randomized, from 0 to 1 (defaults to 0.5) */
+  jitter?: number;
+  /** Error codes to retry (defaults to errors flagged as retryable) */
+  retryableCodes?: EverythingErrorCode[];
+}
+
+/**
+ * Options for the circuit breaker that guards calls to Everything.
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (defaults to 5) */
+  failureThreshold?: number;
+  /** Milliseconds the circuit stays open before a trial call (defaults to 30000) */
+  resetTimeout?: number;
+}
+
+/**
+ * An object that can be compiled to an Everything search string.
+ */
+export interface QueryLike {
+  /** Compile to an Everything search string */
+  build(): string;
+}
+
+/**
+ * A raw Everything search string or a compiled query.
+ */
+export type SearchQuery = string | QueryLike;
+
+/**
+ * A result property that can be requested through the `fields` option.
+ */
+export type SearchField =
+  | "name"
+  | "path"
+  | "size"
+  | "dateModified"
+  | "dateCreated"
+  | "dateAccessed"
+  | "attributes"
+  | "runCount"
+  | "dateRecentlyChanged";
+
+/**
+ * A search result narrowed to the requested fields. The name, path, full
+ * path and folder flag are always present; the hidden, system and
+ * read-only flags come with `attributes`.
+ */
+export type SelectedSearchResult<F extends SearchField = SearchField> = Pick<
+  SearchResult,
+  | "name"
+  | "path"
+  | "fullPath"
+  | "isDirectory"
+  | F
+  | (F extends "attributes" ? "isHidden" | "isSystem" | "isReadOnly" : never)
+>;
+
+/**
+ * Options accepted by every asynchronous operation.
+ */
+export interface OperationOptions {
+  /** Signal that cancels the operation, rejecting with EverythingAbortError */
+  signal?: AbortSignal;
 }
 
 /**
  * Options for configuring a search query.
  */
-export interface SearchOptions {
+export interface SearchOptions<F extends SearchField = SearchField>
+  extends OperationOptions {
+  /** Result properties to fetch (defaults to all of them) */
+  fields?: readonly F[];
   /** Whether to match case in search */
   matchCase?: boolean;
   /** Whether to match path in search */
@@ -34,8 +137,20 @@ export interface SearchOptions {
   maxResults?: number;
   /** Offset for pagination */
   offset?: number;
-  /** Field to sort results by */
-  sortBy?: "name" | "path" | "size" | "date" | "run-count";
+  /** Field to sort results by ("date" is the date modified) */
+  sortBy?:
+    | "name"
+    | "path"
+    | "size"
+    | "extension"
+    | "type-name"
+    | "date"
+    | "date-created"
+    | "date-accessed"
+    | "attributes"
+    | "run-count"
+    | "date-recently-changed"
+    | "date-run";
   /** Sort order */
   sortOrder?: "asc" | "desc";
   /** Whether to include hidden files */
@@ -49,7 +164,51 @@ export interface SearchOptions {
 }
 
 /**
- * Represents a single search result.
+ * One page of search results with the totals reported by the same query.
+ */
+export interface SearchResultSet<T = SearchResult> {
+  /** Results in this page */
+  items: T[];
+  /** Total number of matches for the query */
+  totalResults: number;
+  /** Offset of the first result in this page */
+  offset: number;
+  /** Whether more results exist after this page */
+  hasMore: boolean;
+  /** The query string sent to Everything */
+  query: string;
+  /** Fields the adapter returned; items hold null where a value is unknown */
+  availableFields: SearchField[];
+  /** The options used for this page, with the offset filled in */
+  options: SearchOptions;
+  /**
+   * Fetch the following page with the same query and options.
+   * @returns Promise resolving to the next page, or null if there is none
+   */
+  next(): Promise<SearchResultSet<T> | null>;
+}
+
+/**
+ * Options for iterating over all results of a search query.
+ */
+export interface SearchIteratorOptions<F extends SearchField = SearchField>
+  extends SearchOptions<F> {
+  /** Number of results fetched per request */
+  pageSize?: number;
+}
+
+/**
+ * Async iterator that pages through every result of a search query.
+ */
+export interface SearchIterator<T = SearchResult>
+  extends AsyncIterableIterator<T> {
+  /** Total number of matches, known once the first page has been fetched */
+  readonly totalResults: number | undefined;
+}
+
+/**
+ * Represents a single search result. Metadata the adapter could not
+ * determine is null rather than a placeholder value.
  */
 export interface SearchResult {
   /** Filename or directory name */
@@ -58,24 +217,28 @@ export interface SearchResult {
   path: string;
   /** Full path to the file (path + name) */
   fullPath: string;
-  /** File size in bytes */
-  size: number;
-  /** Date the file was last modified */
-  dateModified: Date;
-  /** Date the file was created */
-  dateCreated: Date;
-  /** Date the file was last accessed */
-  dateAccessed: Date;
-  /** File attributes (bitmask) */
-  attributes: number;
+  /** File size in bytes, or null if unknown */
+  size: number | null;
+  /** Date the file was last modified, or null if unknown */
+  dateModified: Date | null;
+  /** Date the file was created, or null if unknown */
+  dateCreated: Date | null;
+  /** Date the file was last accessed, or null if unknown */
+  dateAccessed: Date | null;
+  /** File attributes (bitmask), or null if unknown */
+  attributes: number | null;
+  /** Number of times the file was opened from Everything, or null if unknown */
+  runCount: number | null;
+  /** Date Everything last saw the file change in its index, or null if unknown */
+  dateRecentlyChanged: Date | null;
   /** Whether the result is a directory */
   isDirectory: boolean;
-  /** Whether the file is hidden */
-  isHidden: boolean;
-  /** Whether the file is a system file */
-  isSystem: boolean;
-  /** Whether the file is read-only */
-  isReadOnly: boolean;
+  /** Whether the file is hidden, or null if the attributes are unknown */
+  isHidden: boolean | null;
+  /** Whether the file is a system file, or null if the attributes are unknown */
+  isSystem: boolean | null;
+  /** Whether the file is read-only, or null if the attributes are unknown */
+  isReadOnly: boolean | null;
 }
 
 /**
@@ -90,6 +253,67 @@ export interface SearchStatus {
   percentComplete: number;
 }
 
+/**
+ * A file format search results can be exported to.
+ */
+export type ExportFormat =
+  | "csv"
+  | "tsv"
+  | "txt"
+  | "jsonl"
+  | "m3u"
+  | "m3u8"
+  | "efu";
+
+/**
+ * Options for exporting the results of a search.
+ */
+export interface ExportOptions<F extends SearchField = SearchField>
+  extends SearchIteratorOptions<F> {
+  /** File format to write */
+  format: ExportFormat;
+  /** Path of the file to write, or a stream to write to (left open) */
+  destination: string | NodeJS.WritableStream;
+}
+
+/**
+ * A search option that an adapter may or may not honour.
+ */
+export type SearchOptionName = Exclude<
+  keyof SearchOptions,
+  "fields" | "signal"
+>;
+
+/**
+ * A value of the `sortBy` search option.
+ */
+export type SearchSortKey = NonNullable<SearchOptions["sortBy"]>;
+
+/**
+ * An operation besides searching that an adapter may or may not support.
+ */
+export type AdapterOperation =
+  | "getVersion"
+  | "rebuildIndex"
+  | "getSearchStatus"
+  | "monitorFileChanges"
+  | "watch";
+
+/**
+ * What an adapter can do. Anything not listed is either ignored or, for
+ * operations, rejected with an EverythingUnsupportedError.
+ */
+export interface AdapterCapabilities {
+  /** Search options the adapter honours */
+  options: readonly SearchOptionName[];
+  /** Keys the adapter can sort by */
+  sortKeys: readonly SearchSortKey[];
+  /** Result fields the adapter can fetch */
+  fields: readonly SearchField[];
+  /** Operations the adapter supports */
+  operations: readonly AdapterOperation[];
+}
+
 /**
  * Callback for file change monitoring.
  */
@@ -102,7 +326,42 @@ export interface FileChange {
   /** Full path to the file */
   path: string;
   /** Type of change that occurred */
-  type: "added" | "modified" | "deleted";
+  type: "added" | "modified" | "deleted" | "renamed";
+  /** Previous full path of a renamed file */
+  oldPath?: string;
+}
+
+/**
+ * Options for watching the results of a search query.
+ */
+export interface WatchOptions extends Omit<SearchIteratorOptions, "fields"> {
+  /** Milliseconds between polls (defaults to 5000) */
+  interval?: number;
+  /**
+   * Longest interval to back off to after failed polls (defaults to 60000,
+   * or to the interval if that is longer)
+   */
+  maxInterval?: number;
+  /** Factor the interval grows by after each failed poll (defaults to 2) */
+  backoff?: number;
+  /** Called with the error when a poll or the callback fails */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Options for a change feed built on Everything's date recently changed.
+ */
+export interface ChangeFeedOptions
+  extends Pick<
+    WatchOptions,
+    "interval" | "maxInterval" | "backoff" | "onError" | "pageSize"
+  > {
+  /** Only report changes to results of this query (defaults to everything) */
+  query?: SearchQuery;
+  /** Report changes made after this time (defaults to when the feed starts) */
+  since?: Date;
+  /** Folder listings kept to detect deletions and renames (defaults to 1000) */
+  folderCacheSize?: number;
 }
 
 /**
@@ -116,11 +375,36 @@ export type Unsubscribe = () => void;
 export interface EverythingClient {
   /**
    * Search for files and directories using Everything.
-   * @param query The search query
-   * @param options Optional search options
-   * @returns Promise resolving to an array of search results
+   * @param query The search query, as a string or a query builder
+   * @param options Optional search options, including the fields to fetch
+   * @returns Promise resolving to a page of results with totals
    */
-  search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
+  search<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options?: SearchOptions<F>,
+  ): Promise<SearchResultSet<SelectedSearchResult<F>>>;
+
+  /**
+   * Iterate over every result of a search, fetching pages on demand.
+   * @param query The search query, as a string or a query builder
+   * @param options Optional search options, including the page size
+   * @returns Async iterator over the search results
+   */
+  searchIterator<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options?: SearchIteratorOptions<F>,
+  ): SearchIterator<SelectedSearchResult<F>>;
+
+  /**
+   * Write every result of a search to a file or stream.
+   * @param query The search query, as a string or a query builder
+   * @param options Search options plus the format and destination
+   * @returns Promise resolving to the number of results written
+   */
+  exportResults<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: ExportOptions<F>,
+  ): Promise<number>;
 
   /**
    * Connect to the Everything service.
@@ -139,28 +423,140 @@ export interface EverythingClient {
    */
   isConnected(): boolean;
 
+  /**
+   * Get the adapter the client talks to Everything through.
+   * @returns The adapter name, "custom" for an adapter instance, or null
+   * while "auto" has not connected yet
+   */
+  getActiveAdapter(): AdapterName | "custom" | null;
+
+  /**
+   * Describe the search options, sort keys, fields and operations the
+   * adapter in use supports. In "auto" mode this connects first.
+   * @returns Promise resolving to the adapter's capabilities
+   */
+  getCapabilities(): Promise<AdapterCapabilities>;
+
   /**
    * Get the version of the Everything service.
+   * @param options Optional abort signal
    * @returns Promise resolving to the version string
    */
-  getVersion(): Promise<string>;
+  getVersion(options?: OperationOptions): Promise<string>;
 
   /**
    * Rebuild the Everything index.
+   * @param options Optional abort signal
    * @returns Promise resolving when index rebuild is initiated
    */
-  rebuildIndex(): Promise<void>;
+  rebuildIndex(options?: OperationOptions): Promise<void>;
 
   /**
    * Get the current search status.
+   * @param options Optional abort signal
    * @returns Promise resolving to the search status
    */
-  getSearchStatus(): Promise<SearchStatus>;
+  getSearchStatus(options?: OperationOptions): Promise<SearchStatus>;
 
   /**
-   * Monitor file changes and receive notifications.
+   * Monitor file changes and receive notifications, including renames.
    * @param callback Function to call when files change
+   * @param options Optional scope, starting time and polling options
    * @returns Function to call to stop monitoring
    */
-  monitorFileChanges(callback: FileChangeCallback): Unsubscribe;
+  monitorFileChanges(
+    callback: FileChangeCallback,
+    options?: ChangeFeedOptions,
+  ): Unsubscribe;
+
+  /**
+   * Watch the results of a query, reporting files that are added,
+   * modified or deleted between polls.
+   * @param query The search query, as a string or a query builder
+   * @param options Polling interval, backoff and search options
+   * @param callback Function called with the changes found by each poll
+   * @returns Function to stop watching
+   */
+  watch(
+    query: SearchQuery,
+    options: WatchOptions,
+    callback: FileChangeCallback,
+  ): Unsubscribe;
+}
+
+/**
+ * A backend of a multi-client, named so results and errors can be traced
+ * back to it.
+ */
+export interface MultiClientSource {
+  /** Name each result and error from this source is tagged with */
+  name: string;
+  /** Client to search, or options to create one with createClient() */
+  client: EverythingClient | ClientOptions;
+}
+
+/**
+ * A search result tagged with the source it came from.
+ */
+export type SourcedSearchResult<T = SearchResult> = T & {
+  /** Name of the source that returned the result */
+  source: string;
+};
+
+/**
+ * A source that failed to answer.
+ */
+export interface SourceError {
+  /** Name of the source */
+  source: string;
+  /** Why it failed */
+  error: unknown;
+}
+
+/**
+ * One page of results merged from every source of a multi-client.
+ */
+export interface MultiSearchResultSet<T = SearchResult>
+  extends Omit<SearchResultSet<SourcedSearchResult<T>>, "next"> {
+  /** Total number of matches reported by each source that answered */
+  sourceTotals: Record<string, number>;
+  /** Sources that failed; their results are missing from the page */
+  errors: SourceError[];
+  /**
+   * Fetch the following page with the same query and options.
+   * @returns Promise resolving to the next page, or null if there is none
+   */
+  next(): Promise<MultiSearchResultSet<T> | null>;
+}
+
+/**
+ * Client that searches several Everything instances at once.
+ */
+export interface MultiClient {
+  /** Names of the sources, in the order they were given */
+  readonly sources: readonly string[];
+
+  /**
+   * Search every source concurrently and merge the results in the
+   * requested order. `offset` and `maxResults` apply to the merged results.
+   * @param query The search query, as a string or a query builder
+   * @param options Optional search options, including the fields to fetch
+   * @returns Promise resolving to a merged page of results, with the
+   * errors of sources that failed; rejects only if every source fails
+   */
+  search<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options?: SearchOptions<F>,
+  ): Promise<MultiSearchResultSet<SelectedSearchResult<F>>>;
+
+  /**
+   * Connect to every source.
+   * @returns Promise resolving to the errors of sources that failed
+   */
+  connect(): Promise<SourceError[]>;
+
+  /**
+   * Disconnect from every source.
+   */
+  disconnect(): void;
 }
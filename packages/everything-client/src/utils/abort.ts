@@ -0,0 +1,33 @@
+import { EverythingAbortError } from "./errors";
+
+/**
+ * Throw an EverythingAbortError if the signal has been aborted
+ * @param adapter Name of the adapter running the operation
+ */
+export function throwIfAborted(
+  signal: AbortSignal | undefined,
+  adapter?: string,
+): void {
+  if (signal?.aborted) {
+    throw new EverythingAbortError(undefined, {
+      adapter,
+      cause: signal.reason,
+    });
+  }
+}
+
+/**
+ * Combine an abort signal with a timeout, for APIs that take one signal
+ * @returns A signal that aborts on either, or undefined if there is neither
+ */
+export function withTimeout(
+  signal: AbortSignal | undefined,
+  timeout: number | undefined,
+): AbortSignal | undefined {
+  if (timeout === undefined) {
+    return signal;
+  }
+
+  const timeoutSignal = AbortSignal.timeout(timeout);
+  return signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal;
+}
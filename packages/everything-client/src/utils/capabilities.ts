@@ -0,0 +1,128 @@
+import type {
+  AdapterCapabilities,
+  AdapterName,
+  AdapterOperation,
+  SearchOptionName,
+  SearchOptions,
+  SearchSortKey,
+} from "../types";
+import { EverythingUnsupportedError } from "./errors";
+import { SEARCH_FIELDS } from "./fields";
+
+/**
+ * Every search option an adapter can honour
+ */
+export const SEARCH_OPTIONS: readonly SearchOptionName[] = [
+  "matchCase",
+  "matchPath",
+  "matchWholeWord",
+  "regex",
+  "maxResults",
+  "offset",
+  "sortBy",
+  "sortOrder",
+  "includeHidden",
+  "includeSystem",
+  "includeDirectories",
+  "includeFiles",
+];
+
+/**
+ * Every key results can be sorted by
+ */
+export const SORT_KEYS: readonly SearchSortKey[] = [
+  "name",
+  "path",
+  "size",
+  "extension",
+  "type-name",
+  "date",
+  "date-created",
+  "date-accessed",
+  "attributes",
+  "run-count",
+  "date-recently-changed",
+  "date-run",
+];
+
+/**
+ * Every operation besides searching
+ */
+export const ADAPTER_OPERATIONS: readonly AdapterOperation[] = [
+  "getVersion",
+  "rebuildIndex",
+  "getSearchStatus",
+  "monitorFileChanges",
+  "watch",
+];
+
+/**
+ * Capabilities of an adapter that supports everything
+ */
+export const FULL_CAPABILITIES: AdapterCapabilities = {
+  options: SEARCH_OPTIONS,
+  sortKeys: SORT_KEYS,
+  fields: SEARCH_FIELDS,
+  operations: ADAPTER_OPERATIONS,
+};
+
+/**
+ * Option values that leave a search unchanged, so passing them to an
+ * adapter that ignores the option is harmless
+ */
+const NEUTRAL_VALUES: Partial<Record<SearchOptionName, unknown>> = {
+  matchCase: false,
+  matchPath: false,
+  matchWholeWord: false,
+  regex: false,
+  includeHidden: true,
+  includeSystem: true,
+  includeDirectories: true,
+  includeFiles: true,
+};
+
+/**
+ * Throw if a search asks for options, a sort key or fields the adapter
+ * would ignore
+ * @param adapter Name of the adapter, e.g. "http"
+ */
+export function assertSearchSupported(
+  adapter: AdapterName,
+  capabilities: AdapterCapabilities,
+  options: SearchOptions,
+): void {
+  const name = adapter.toUpperCase();
+
+  for (const option of SEARCH_OPTIONS) {
+    const value = options[option];
+    if (
+      value !== undefined &&
+      value !== NEUTRAL_VALUES[option] &&
+      !capabilities.options.includes(option)
+    ) {
+      throw new EverythingUnsupportedError(
+        `${name} adapter does not support the "${option}" search option`,
+        option,
+        { adapter },
+      );
+    }
+  }
+
+  if (options.sortBy && !capabilities.sortKeys.includes(options.sortBy)) {
+    throw new EverythingUnsupportedError(
+      `${name} adapter cannot sort by "${options.sortBy}"`,
+      `sortBy:${options.sortBy}`,
+      { adapter },
+    );
+  }
+
+  for (const field of options.fields ?? []) {
+    if (!capabilities.fields.includes(field)) {
+      throw new EverythingUnsupportedError(
+        `${name} adapter cannot fetch the "${field}" field`,
+        `fields:${field}`,
+        { adapter },
+      );
+    }
+  }
+}
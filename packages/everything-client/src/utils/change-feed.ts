@@ -0,0 +1,351 @@
+import type { BaseAdapter } from "../adapters/base-adapter";
+import { type QueryBuilder, createQuery, resolveQuery } from "../query";
+import type {
+  ChangeFeedOptions,
+  FileChange,
+  FileChangeCallback,
+  SelectedSearchResult,
+  Unsubscribe,
+} from "../types";
+import { pollChanges } from "./watch";
+
+/**
+ * Default number of folder listings kept by a change feed
+ */
+const DEFAULT_FOLDER_CACHE_SIZE = 1000;
+
+/**
+ * A changed result with the fields the feed needs to classify it
+ */
+type ChangedResult = SelectedSearchResult<
+  "size" | "dateCreated" | "dateRecentlyChanged"
+>;
+
+/**
+ * What the feed remembers about an entry of a listed folder
+ */
+interface ListedEntry {
+  path: string;
+  size: number | null;
+  dateCreated: number | null;
+  isDirectory: boolean;
+}
+
+/**
+ * Children of a folder, keyed by lower-cased full path
+ */
+type FolderListing = Map<string, ListedEntry>;
+
+/**
+ * Report changes through Everything's date recently changed instead of
+ * diffing full snapshots. Each poll only fetches results changed since the
+ * previous one.
+ *
+ * Deleted entries are found by re-listing the folders around recent
+ * changes, so a deletion is only reported for folders the feed has listed
+ * before. A deletion and an addition with the same size and creation date
+ * are reported as a rename.
+ * @returns Function to stop the feed
+ */
+export function watchChanges(
+  adapter: Pick<BaseAdapter, "searchIterator">,
+  options: ChangeFeedOptions,
+  callback: FileChangeCallback,
+): Unsubscribe {
+  const feed = new ChangeFeed(adapter, options);
+  return pollChanges(() => feed.poll(), options, callback);
+}
+
+/**
+ * Watermark and folder listings behind watchChanges()
+ */
+class ChangeFeed {
+  private adapter: Pick<BaseAdapter, "searchIterator">;
+  private scope: string;
+  private pageSize: number | undefined;
+  private folderCacheSize: number;
+  private watermark: number;
+  private reported = new Map<string, number>();
+  private folders = new Map<string, FolderListing>();
+
+  constructor(
+    adapter: Pick<BaseAdapter, "searchIterator">,
+    options: ChangeFeedOptions,
+  ) {
+    this.adapter = adapter;
+    this.scope = options.query ? resolveQuery(options.query).trim() : "";
+    this.pageSize = options.pageSize;
+    this.folderCacheSize = options.folderCacheSize ?? DEFAULT_FOLDER_CACHE_SIZE;
+    this.watermark = floorToSecond((options.since ?? new Date()).getTime());
+  }
+
+  /**
+   * Fetch everything that changed since the watermark and classify it
+   */
+  public async poll(): Promise<FileChange[]> {
+    const since = this.watermark;
+    const changed = await this.fetchChanged(since);
+    const changedFolders = this.scope
+      ? await this.fetchChangedFolders(since)
+      : changed
+          .filter((result) => result.isDirectory)
+          .map((folder) => folder.fullPath);
+
+    // Classify against the listings from before this poll
+    const added: ChangedResult[] = [];
+    const modified: ChangedResult[] = [];
+    const unknown = new Set<ChangedResult>();
+
+    for (const result of changed) {
+      const listing = this.folders.get(keyOf(result.path));
+      const created = result.dateCreated?.getTime() ?? null;
+      const isNew =
+        (created !== null && created >= since) ||
+        (listing !== undefined && !listing.has(keyOf(result.fullPath)));
+
+      if (isNew) {
+        added.push(result);
+      } else if (!result.isDirectory) {
+        // Content changes of a folder are reported for its children
+        modified.push(result);
+      }
+
+      if (!listing) {
+        unknown.add(result);
+      }
+    }
+
+    const deleted = await this.relistFolders(
+      changedFolders,
+      changed.map((result) => result.path),
+    );
+
+    this.advanceWatermark(changed);
+    return pairRenames(deleted, added, modified, unknown);
+  }
+
+  /**
+   * Fetch results in scope that changed at or after the given time
+   */
+  private async fetchChanged(since: number): Promise<ChangedResult[]> {
+    const results: ChangedResult[] = [];
+    const iterator = this.adapter.searchIterator(
+      this.scoped((query) =>
+        query.dateRecentlyChanged({ from: new Date(since) }),
+      ),
+      {
+        fields: ["size", "dateCreated", "dateRecentlyChanged"],
+        sortBy: "date-recently-changed",
+        sortOrder: "asc",
+        pageSize: this.pageSize,
+      },
+    );
+
+    for await (const result of iterator) {
+      const changedAt = result.dateRecentlyChanged?.getTime();
+      const key = keyOf(result.fullPath);
+
+      // Results at the watermark second may have been reported last time
+      if (changedAt !== undefined && this.reported.get(key) !== changedAt) {
+        results.push(result);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Fetch folders outside the scope that changed, to re-list known ones
+   */
+  private async fetchChangedFolders(since: number): Promise<string[]> {
+    const folders: string[] = [];
+    const iterator = this.adapter.searchIterator(
+      createQuery()
+        .folders()
+        .dateRecentlyChanged({ from: new Date(since) })
+        .build(),
+      { fields: [], pageSize: this.pageSize },
+    );
+
+    for await (const folder of iterator) {
+      if (this.folders.has(keyOf(folder.fullPath))) {
+        folders.push(folder.fullPath);
+      }
+    }
+
+    return folders;
+  }
+
+  /**
+   * List changed folders the feed knows, and the folders of changes it has
+   * not listed yet so later deletions there can be found
+   * @returns Entries that disappeared from known folders
+   */
+  private async relistFolders(
+    changedFolders: string[],
+    changedParents: string[],
+  ): Promise<ListedEntry[]> {
+    const deleted: ListedEntry[] = [];
+    const paths = new Map<string, string>();
+
+    for (const path of changedFolders) {
+      if (this.folders.has(keyOf(path))) {
+        paths.set(keyOf(path), path);
+      }
+    }
+    for (const path of changedParents) {
+      if (path && !this.folders.has(keyOf(path))) {
+        paths.set(keyOf(path), path);
+      }
+    }
+
+    for (const [key, path] of paths) {
+      const previous = this.folders.get(key);
+      const listing = await this.listFolder(path);
+
+      if (previous) {
+        for (const [entryKey, entry] of previous) {
+          if (!listing.has(entryKey)) {
+            deleted.push(entry);
+          }
+        }
+      }
+
+      this.remember(key, listing);
+    }
+
+    return deleted;
+  }
+
+  /**
+   * List the children of a folder that are in scope
+   */
+  private async listFolder(path: string): Promise<FolderListing> {
+    const listing: FolderListing = new Map();
+    const iterator = this.adapter.searchIterator(
+      this.scoped((query) => query.parent(path)),
+      { fields: ["size", "dateCreated"], pageSize: this.pageSize },
+    );
+
+    for await (const result of iterator) {
+      listing.set(keyOf(result.fullPath), {
+        path: result.fullPath,
+        size: result.size,
+        dateCreated: result.dateCreated?.getTime() ?? null,
+        isDirectory: result.isDirectory,
+      });
+    }
+
+    return listing;
+  }
+
+  /**
+   * Cache a folder listing, evicting the least recently listed folders
+   */
+  private remember(key: string, listing: FolderListing): void {
+    this.folders.delete(key);
+    this.folders.set(key, listing);
+
+    for (const oldest of this.folders.keys()) {
+      if (this.folders.size <= this.folderCacheSize) {
+        break;
+      }
+      this.folders.delete(oldest);
+    }
+  }
+
+  /**
+   * Move the watermark to the latest change, remembering what was reported
+   * in that second so the next poll can skip it
+   */
+  private advanceWatermark(changed: ChangedResult[]): void {
+    for (const result of changed) {
+      const changedAt = result.dateRecentlyChanged?.getTime();
+      if (changedAt !== undefined) {
+        this.watermark = Math.max(this.watermark, floorToSecond(changedAt));
+        this.reported.set(keyOf(result.fullPath), changedAt);
+      }
+    }
+
+    for (const [key, changedAt] of this.reported) {
+      if (changedAt < this.watermark) {
+        this.reported.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Build a query limited to the feed's scope
+   */
+  private scoped(build: (query: QueryBuilder) => QueryBuilder): string {
+    const query = createQuery();
+    if (this.scope) {
+      query.group((scope) => scope.raw(this.scope));
+    }
+    return build(query).build();
+  }
+}
+
+/**
+ * Pair deletions with additions of the same file under another path
+ */
+function pairRenames(
+  deleted: ListedEntry[],
+  added: ChangedResult[],
+  modified: ChangedResult[],
+  unknown: Set<ChangedResult>,
+): FileChange[] {
+  const renamed: FileChange[] = [];
+  const deletions: FileChange[] = [];
+  const candidates = [...added, ...modified.filter((m) => unknown.has(m))];
+  const paired = new Set<ChangedResult>();
+
+  for (const entry of deleted) {
+    const match = candidates.find(
+      (candidate) =>
+        !paired.has(candidate) &&
+        entry.dateCreated !== null &&
+        candidate.dateCreated?.getTime() === entry.dateCreated &&
+        candidate.size === entry.size &&
+        candidate.isDirectory === entry.isDirectory,
+    );
+
+    if (match) {
+      paired.add(match);
+      renamed.push({
+        path: match.fullPath,
+        oldPath: entry.path,
+        type: "renamed",
+      });
+    } else {
+      deletions.push({ path: entry.path, type: "deleted" });
+    }
+  }
+
+  return [
+    ...renamed,
+    ...added
+      .filter((result) => !paired.has(result))
+      .map((result): FileChange => ({ path: result.fullPath, type: "added" })),
+    ...modified
+      .filter((result) => !paired.has(result))
+      .map(
+        (result): FileChange => ({ path: result.fullPath, type: "modified" }),
+      ),
+    ...deletions,
+  ];
+}
+
+/**
+ * Case-insensitive key for a path, the way Windows compares them
+ */
+function keyOf(path: string): string {
+  return path.toLowerCase();
+}
+
+/**
+ * Everything's date literals have a precision of one second
+ */
+function floorToSecond(time: number): number {
+  return Math.floor(time / 1000) * 1000;
+}
@@ -0,0 +1,109 @@
+import type { CircuitBreakerOptions } from "../types";
+import { EverythingCircuitOpenError, EverythingError } from "./errors";
+import { isRetryableError } from "./retry";
+
+/**
+ * Default circuit breaker options
+ */
+const DEFAULT_OPTIONS: Required<CircuitBreakerOptions> = {
+  failureThreshold: 5,
+  resetTimeout: 30000,
+};
+
+/**
+ * State of a circuit breaker: closed lets calls through, open rejects them,
+ * and half-open lets a single trial call through
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Stops calling a backend that keeps failing. After `failureThreshold`
+ * consecutive failures calls are rejected with EverythingCircuitOpenError
+ * until `resetTimeout` has passed; then one trial call decides whether the
+ * circuit closes again.
+ */
+export class CircuitBreaker {
+  private options: Required<CircuitBreakerOptions>;
+  private isFailure: (error: unknown) => boolean;
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  /**
+   * @param isFailure Which errors count as failures of the backend
+   * (defaults to retryable Everything errors)
+   */
+  constructor(
+    options: CircuitBreakerOptions = {},
+    isFailure: (error: unknown) => boolean = isRetryableError,
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.isFailure = isFailure;
+
+    const { failureThreshold, resetTimeout } = this.options;
+    if (
+      !(Number.isInteger(failureThreshold) && failureThreshold >= 1) ||
+      !(resetTimeout >= 0)
+    ) {
+      throw new EverythingError(
+        `Invalid circuit breaker options: failureThreshold ${failureThreshold}, resetTimeout ${resetTimeout}`,
+        { code: "invalid-parameter" },
+      );
+    }
+  }
+
+  /**
+   * Current state of the circuit
+   */
+  public get state(): CircuitState {
+    if (this.openedAt === null) {
+      return "closed";
+    }
+    return Date.now() - this.openedAt < this.options.resetTimeout
+      ? "open"
+      : "half-open";
+  }
+
+  /**
+   * Run an operation unless the circuit is open
+   */
+  public async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const state = this.state;
+
+    if (state === "open" || (state === "half-open" && this.trialInFlight)) {
+      const retryAt = new Date(
+        (this.openedAt ?? Date.now()) + this.options.resetTimeout,
+      );
+      throw new EverythingCircuitOpenError(
+        `Circuit breaker is open after ${this.failures} failures; retry after ${retryAt.toISOString()}`,
+        retryAt,
+      );
+    }
+
+    const isTrial = state === "half-open";
+    this.trialInFlight ||= isTrial;
+
+    try {
+      const result = await operation();
+      this.close();
+      return result;
+    } catch (error) {
+      if (!this.isFailure(error)) {
+        // The backend answered, it just did not like the request
+        this.close();
+      } else if (++this.failures >= this.options.failureThreshold || isTrial) {
+        this.openedAt = Date.now();
+      }
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  private close(): void {
+    this.failures = 0;
+    this.openedAt = null;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Where the parser is within the current field
+ */
+type CSVState = "start" | "unquoted" | "quoted" | "quote";
+
+/**
+ * Incremental RFC 4180 CSV parser. Quoted fields may contain commas,
+ * doubled quotes and line breaks, and input may be split anywhere.
+ */
+export class CSVParser {
+  private state: CSVState = "start";
+  private field = "";
+  private record: string[] = [];
+
+  /**
+   * Parse a chunk of input
+   * @returns The records completed by this chunk
+   */
+  public write(chunk: string): string[][] {
+    const records: string[][] = [];
+
+    for (const char of chunk) {
+      if (this.state === "quoted") {
+        if (char === '"') {
+          this.state = "quote";
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (this.state === "quote") {
+        if (char === '"') {
+          // A doubled quote stands for one quote
+          this.field += char;
+          this.state = "quoted";
+          continue;
+        }
+        this.state = "unquoted";
+      }
+
+      if (char === '"' && this.state === "start") {
+        this.state = "quoted";
+      } else if (char === ",") {
+        this.endField();
+      } else if (char === "\n") {
+        this.endField();
+        this.endRecord(records);
+      } else if (char !== "\r") {
+        this.field += char;
+        this.state = "unquoted";
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Finish parsing
+   * @returns The last record, if the input did not end with a line break
+   */
+  public end(): string[][] {
+    const records: string[][] = [];
+    if (this.state !== "start" || this.record.length > 0) {
+      this.endField();
+      this.endRecord(records);
+    }
+    return records;
+  }
+
+  private endField(): void {
+    this.record.push(this.field);
+    this.field = "";
+    this.state = "start";
+  }
+
+  private endRecord(records: string[][]): void {
+    // Blank lines hold no record
+    if (this.record.length > 1 || this.record[0] !== "") {
+      records.push(this.record);
+    }
+    this.record = [];
+  }
+}
+
+/**
+ * Parse CSV text into records
+ */
+export function parseCSV(text: string): string[][] {
+  const parser = new CSVParser();
+  return [...parser.write(text), ...parser.end()];
+}
+
+/**
+ * Format a record as a CSV line, quoting values that need it
+ * @param delimiter Separator between values, e.g. a tab for TSV
+ */
+export function formatCSVRecord(values: string[], delimiter = ","): string {
+  return values
+    .map((value) =>
+      value.includes(delimiter) || /["\r\n]/.test(value)
+        ? `"${value.replaceAll('"', '""')}"`
+        : value,
+    )
+    .join(delimiter);
+}
@@ -0,0 +1,121 @@
+import type { SearchResult } from "../types";
+import { parseCSV } from "./csv";
+import { EverythingError } from "./errors";
+import { dateToFileTime, fileTimeToDate } from "./filetime";
+
+/**
+ * Columns of an Everything File List, as Everything writes them
+ */
+export const EFU_COLUMNS: readonly string[] = [
+  "Filename",
+  "Size",
+  "Date Modified",
+  "Date Created",
+  "Attributes",
+];
+
+/**
+ * A result to write to a file list; metadata that is left out is written
+ * as unknown
+ */
+export type EFURecord = Pick<SearchResult, "fullPath"> & Partial<SearchResult>;
+
+const FILE_ATTRIBUTE_DIRECTORY = 0x10;
+
+/**
+ * Parse an Everything File List (.efu) into search results
+ */
+export function parseEFU(text: string): SearchResult[] {
+  // Everything writes file lists as UTF-8 with a byte order mark
+  const [header = [], ...records] = parseCSV(text.replace(/^\uFEFF/, ""));
+  const columns = header.map((title) => title.trim().toLowerCase());
+  const filename = columns.indexOf("filename");
+  if (filename === -1) {
+    throw new EverythingError(
+      "Not an Everything File List: missing Filename column",
+      { code: "invalid-parameter" },
+    );
+  }
+
+  const column = (record: string[], title: string) => {
+    const index = columns.indexOf(title);
+    return index === -1 ? "" : (record[index] ?? "");
+  };
+
+  return records.map((record) => {
+    const rawPath = record[filename] ?? "";
+    const attributes = parseNumber(column(record, "attributes"));
+    const isDirectory =
+      /\\$/.test(rawPath) || !!((attributes ?? 0) & FILE_ATTRIBUTE_DIRECTORY);
+    const fullPath = rawPath.length > 1 ? rawPath.replace(/\\$/, "") : rawPath;
+    const separator = fullPath.lastIndexOf("\\");
+
+    return {
+      name: separator === -1 ? fullPath : fullPath.slice(separator + 1),
+      path: separator === -1 ? "" : fullPath.slice(0, separator),
+      fullPath,
+      size: parseNumber(column(record, "size")),
+      dateModified: fileTimeToDate(column(record, "date modified")),
+      dateCreated: fileTimeToDate(column(record, "date created")),
+      dateAccessed: fileTimeToDate(column(record, "date accessed")),
+      attributes,
+      runCount: null,
+      dateRecentlyChanged: null,
+      isDirectory,
+      isHidden: attributes === null ? null : !!(attributes & 0x2),
+      isSystem: attributes === null ? null : !!(attributes & 0x4),
+      isReadOnly: attributes === null ? null : !!(attributes & 0x1),
+    };
+  });
+}
+
+/**
+ * Serialize results to an Everything File List (.efu)
+ */
+export function formatEFU(results: Iterable<EFURecord>): string {
+  const lines = [EFU_COLUMNS.join(",")];
+  for (const result of results) {
+    lines.push(formatEFURecord(result));
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+/**
+ * Format one result as a line of an Everything File List
+ */
+export function formatEFURecord(result: EFURecord): string {
+  // Keep folders recognizable when their attributes are unknown
+  const attributes =
+    result.isDirectory === true
+      ? (result.attributes ?? 0) | FILE_ATTRIBUTE_DIRECTORY
+      : result.attributes;
+
+  return [
+    // Everything always quotes the file name
+    `"${result.fullPath.replaceAll('"', '""')}"`,
+    formatNumber(result.size),
+    formatFileTime(result.dateModified),
+    formatFileTime(result.dateCreated),
+    formatNumber(attributes),
+  ].join(",");
+}
+
+/**
+ * Parse a decimal (or 0x-prefixed) column; empty or invalid values are
+ * unknown
+ */
+function parseNumber(value: string): number | null {
+  if (value.trim() === "") {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function formatNumber(value: number | null | undefined): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+function formatFileTime(value: Date | null | undefined): string {
+  return value ? dateToFileTime(value).toString() : "";
+}
@@ -1,20 +1,147 @@
+/**
+ * Machine-readable reason for a failure.
+ */
+export type EverythingErrorCode =
+  | "unknown"
+  | "memory"
+  | "ipc-not-running"
+  | "ipc-failed"
+  | "register-class"
+  | "create-window"
+  | "create-thread"
+  | "invalid-index"
+  | "invalid-call"
+  | "invalid-request"
+  | "invalid-parameter"
+  | "export-failed"
+  | "auth-failed"
+  | "not-found"
+  | "timeout"
+  | "connection-failed"
+  | "server-error"
+  | "query-syntax"
+  | "unsupported"
+  | "aborted"
+  | "circuit-open";
+
+/**
+ * Details attached to an Everything error.
+ */
+export interface EverythingErrorOptions {
+  /** Reason for the failure (defaults to the code of an Everything error cause) */
+  code?: EverythingErrorCode;
+  /** Adapter the failure came from, e.g. "ipc" */
+  adapter?: string;
+  /** The underlying error */
+  cause?: unknown;
+  /** Whether retrying may succeed (defaults to what the code implies) */
+  retryable?: boolean;
+}
+
+/**
+ * Codes for failures that may go away on their own, such as Everything
+ * not running yet or a request timing out
+ */
+const RETRYABLE_CODES = new Set<EverythingErrorCode>([
+  "ipc-not-running",
+  "ipc-failed",
+  "timeout",
+  "connection-failed",
+  "server-error",
+]);
+
+/**
+ * Error codes reported by Everything_GetLastError()
+ */
+export const SDK_ERROR_CODES: Record<number, EverythingErrorCode> = {
+  1: "memory", // EVERYTHING_ERROR_MEMORY
+  2: "ipc-not-running", // EVERYTHING_ERROR_IPC
+  3: "register-class", // EVERYTHING_ERROR_REGISTERCLASSEX
+  4: "create-window", // EVERYTHING_ERROR_CREATEWINDOW
+  5: "create-thread", // EVERYTHING_ERROR_CREATETHREAD
+  6: "invalid-index", // EVERYTHING_ERROR_INVALIDINDEX
+  7: "invalid-call", // EVERYTHING_ERROR_INVALIDCALL
+  8: "invalid-request", // EVERYTHING_ERROR_INVALIDREQUEST
+  9: "invalid-parameter", // EVERYTHING_ERROR_INVALIDPARAMETER
+};
+
+/**
+ * Error codes for the exit codes of es.exe
+ */
+export const CLI_EXIT_CODES: Record<number, EverythingErrorCode> = {
+  1: "register-class", // Failed to register window class
+  2: "create-window", // Failed to create listening window
+  3: "memory", // Out of memory
+  4: "invalid-parameter", // Expected an additional command line option
+  5: "export-failed", // Failed to create export output file
+  6: "invalid-parameter", // Unknown switch
+  7: "ipc-failed", // Failed to send Everything IPC a query
+  8: "ipc-not-running", // Everything IPC window not found
+};
+
+/**
+ * Error code for an HTTP response status
+ */
+export function httpStatusCode(status: number): EverythingErrorCode {
+  if (status === 401 || status === 403) {
+    return "auth-failed";
+  }
+  if (status === 404) {
+    return "not-found";
+  }
+  if (status === 408 || status === 504) {
+    return "timeout";
+  }
+  if (status >= 500) {
+    return "server-error";
+  }
+  return status >= 400 ? "invalid-request" : "unknown";
+}
+
 /**
  * Base error class for Everything client errors.
  */
 export class EverythingError extends Error {
-  constructor(message: string) {
-    super(message);
+  /** Reason for the failure */
+  public readonly code: EverythingErrorCode;
+  /** Adapter the failure came from, if known */
+  public readonly adapter: string | undefined;
+  /** Whether retrying the operation may succeed */
+  public readonly retryable: boolean;
+
+  constructor(message: string, options: EverythingErrorOptions = {}) {
+    super(message, "cause" in options ? { cause: options.cause } : undefined);
+    const cause =
+      options.cause instanceof EverythingError ? options.cause : undefined;
+
     this.name = "EverythingError";
+    this.code = options.code ?? cause?.code ?? "unknown";
+    this.adapter = options.adapter ?? cause?.adapter;
+    this.retryable =
+      options.retryable ?? cause?.retryable ?? RETRYABLE_CODES.has(this.code);
     Object.setPrototypeOf(this, EverythingError.prototype);
   }
 }
 
+/**
+ * Fill in the code a subclass uses when neither the options nor an
+ * Everything error cause give one
+ */
+function withDefaultCode(
+  options: EverythingErrorOptions,
+  code: EverythingErrorCode,
+): EverythingErrorOptions {
+  const inherited =
+    options.cause instanceof EverythingError ? options.cause.code : undefined;
+  return { ...options, code: options.code ?? inherited ?? code };
+}
+
 /**
  * Error thrown when connection to Everything fails.
  */
 export class EverythingConnectionError extends EverythingError {
-  constructor(message: string) {
-    super(message);
+  constructor(message: string, options: EverythingErrorOptions = {}) {
+    super(message, withDefaultCode(options, "connection-failed"));
     this.name = "EverythingConnectionError";
     Object.setPrototypeOf(this, EverythingConnectionError.prototype);
   }
@@ -24,8 +151,8 @@ export class EverythingConnectionError extends EverythingError {
  * Error thrown when a search operation fails.
  */
 export class EverythingSearchError extends EverythingError {
-  constructor(message: string) {
-    super(message);
+  constructor(message: string, options: EverythingErrorOptions = {}) {
+    super(message, options);
     this.name = "EverythingSearchError";
     Object.setPrototypeOf(this, EverythingSearchError.prototype);
   }
@@ -35,8 +162,8 @@ export class EverythingSearchError extends EverythingError {
  * Error thrown when an IPC-specific operation fails.
  */
 export class EverythingIPCError extends EverythingError {
-  constructor(message: string) {
-    super(message);
+  constructor(message: string, options: EverythingErrorOptions = {}) {
+    super(message, { adapter: "ipc", ...options });
     this.name = "EverythingIPCError";
     Object.setPrototypeOf(this, EverythingIPCError.prototype);
   }
@@ -46,8 +173,8 @@ export class EverythingIPCError extends EverythingError {
  * Error thrown when a CLI-specific operation fails.
  */
 export class EverythingCLIError extends EverythingError {
-  constructor(message: string) {
-    super(message);
+  constructor(message: string, options: EverythingErrorOptions = {}) {
+    super(message, { adapter: "cli", ...options });
     this.name = "EverythingCLIError";
     Object.setPrototypeOf(this, EverythingCLIError.prototype);
   }
@@ -57,9 +184,83 @@ export class EverythingCLIError extends EverythingError {
  * Error thrown when an HTTP-specific operation fails.
  */
 export class EverythingHTTPError extends EverythingError {
-  constructor(message: string) {
-    super(message);
+  constructor(message: string, options: EverythingErrorOptions = {}) {
+    super(message, { adapter: "http", ...options });
     this.name = "EverythingHTTPError";
     Object.setPrototypeOf(this, EverythingHTTPError.prototype);
   }
 }
+
+/**
+ * Error thrown when an adapter cannot honour a requested option or operation.
+ */
+export class EverythingUnsupportedError extends EverythingError {
+  /** The option, sort key, field or operation that is not supported */
+  public readonly feature: string;
+
+  constructor(
+    message: string,
+    feature: string,
+    options: EverythingErrorOptions = {},
+  ) {
+    super(message, { code: "unsupported", ...options });
+    this.name = "EverythingUnsupportedError";
+    this.feature = feature;
+    Object.setPrototypeOf(this, EverythingUnsupportedError.prototype);
+  }
+}
+
+/**
+ * Error thrown when an operation is cancelled through its abort signal.
+ */
+export class EverythingAbortError extends EverythingError {
+  constructor(
+    message = "The operation was aborted",
+    options: EverythingErrorOptions = {},
+  ) {
+    super(message, { code: "aborted", ...options });
+    this.name = "EverythingAbortError";
+    Object.setPrototypeOf(this, EverythingAbortError.prototype);
+  }
+}
+
+/**
+ * Error thrown instead of calling Everything while the circuit breaker is
+ * open after repeated failures.
+ */
+export class EverythingCircuitOpenError extends EverythingError {
+  /** When the circuit breaker lets the next trial call through */
+  public readonly retryAt: Date;
+
+  constructor(
+    message: string,
+    retryAt: Date,
+    options: EverythingErrorOptions = {},
+  ) {
+    super(message, { code: "circuit-open", ...options });
+    this.name = "EverythingCircuitOpenError";
+    this.retryAt = retryAt;
+    Object.setPrototypeOf(this, EverythingCircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a search query has invalid syntax.
+ */
+export class EverythingQuerySyntaxError extends EverythingError {
+  /** The query that failed to parse */
+  public readonly query: string;
+  /** Zero-based offset of the invalid span in the query */
+  public readonly position: number;
+  /** Length of the invalid span */
+  public readonly length: number;
+
+  constructor(message: string, query: string, position: number, length = 1) {
+    super(`${message} at position ${position}`, { code: "query-syntax" });
+    this.name = "EverythingQuerySyntaxError";
+    this.query = query;
+    this.position = position;
+    this.length = length;
+    Object.setPrototypeOf(this, EverythingQuerySyntaxError.prototype);
+  }
+}
@@ -0,0 +1,179 @@
+import { once } from "node:events";
+import { createWriteStream } from "node:fs";
+import type {
+  ExportFormat,
+  ExportOptions,
+  SearchField,
+  SearchResult,
+  SelectedSearchResult,
+} from "../types";
+import { formatCSVRecord } from "./csv";
+import { EFU_COLUMNS, formatEFURecord } from "./efu";
+import { EverythingError } from "./errors";
+import { SEARCH_FIELDS, resolveFields } from "./fields";
+
+/**
+ * Every format results can be exported to
+ */
+export const EXPORT_FORMATS: readonly ExportFormat[] = [
+  "csv",
+  "tsv",
+  "txt",
+  "jsonl",
+  "m3u",
+  "m3u8",
+  "efu",
+];
+
+/**
+ * A result as written by the exporter; unrequested fields may be missing
+ */
+type ExportedResult = SelectedSearchResult<never> & Partial<SearchResult>;
+
+/**
+ * Column titles for each field, as Everything prints them
+ */
+const COLUMN_TITLES: Partial<Record<SearchField, string>> = {
+  size: "Size",
+  dateModified: "Date Modified",
+  dateCreated: "Date Created",
+  dateAccessed: "Date Accessed",
+  attributes: "Attributes",
+  runCount: "Run Count",
+  dateRecentlyChanged: "Date Recently Changed",
+};
+
+/**
+ * Turns results into the lines of one export format
+ */
+interface ExportWriter {
+  header: string | null;
+  line: (result: ExportedResult) => string;
+}
+
+/**
+ * Write search results to a file or stream as they arrive, so large exports
+ * never sit in memory
+ * @returns The number of results written
+ */
+export async function exportSearchResults(
+  results: AsyncIterable<ExportedResult>,
+  options: ExportOptions,
+): Promise<number> {
+  const { format, destination } = options;
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new EverythingError(`Unknown export format: ${format}`, {
+      code: "invalid-parameter",
+    });
+  }
+
+  const writer = createExportWriter(format, options);
+  const stream: NodeJS.WritableStream =
+    typeof destination === "string"
+      ? createWriteStream(destination, {
+          // M3U predates UTF-8; M3U8 is the UTF-8 variant
+          encoding: format === "m3u" ? "latin1" : "utf8",
+        })
+      : destination;
+  const ownsStream = stream !== destination;
+  const newline = format === "jsonl" ? "\n" : "\r\n";
+
+  // Streams report failures such as a missing directory with an 'error'
+  // event, which crashes the process when nothing listens for it
+  let failure: { error: unknown } | null = null;
+  const onError = (error: unknown) => {
+    failure ??= { error };
+  };
+  const throwIfFailed = () => {
+    if (failure) {
+      throw failure.error;
+    }
+  };
+  stream.on("error", onError);
+
+  const write = async (line: string) => {
+    throwIfFailed();
+    if (!stream.write(`${line}${newline}`)) {
+      await once(stream, "drain");
+    }
+  };
+
+  let count = 0;
+  try {
+    if (writer.header !== null) {
+      await write(writer.header);
+    }
+    for await (const result of results) {
+      await write(writer.line(result));
+      count++;
+    }
+
+    if (ownsStream) {
+      stream.end();
+      await once(stream, "close");
+    }
+    throwIfFailed();
+  } catch (error) {
+    if (ownsStream) {
+      (stream as ReturnType<typeof createWriteStream>).destroy();
+    }
+    throw error;
+  } finally {
+    stream.removeListener("error", onError);
+  }
+
+  return count;
+}
+
+/**
+ * Create the writer for an export format
+ */
+function createExportWriter(
+  format: ExportFormat,
+  options: ExportOptions,
+): ExportWriter {
+  const requested = resolveFields(options);
+  const fields = SEARCH_FIELDS.filter(
+    (field) => field in COLUMN_TITLES && requested.has(field),
+  );
+
+  switch (format) {
+    case "csv":
+    case "tsv": {
+      const delimiter = format === "csv" ? "," : "\t";
+      return {
+        header: formatCSVRecord(
+          ["Filename", ...fields.map((field) => COLUMN_TITLES[field] ?? "")],
+          delimiter,
+        ),
+        line: (result) =>
+          formatCSVRecord(
+            [
+              result.fullPath,
+              ...fields.map((field) => formatValue(result[field])),
+            ],
+            delimiter,
+          ),
+      };
+    }
+    case "efu":
+      return { header: EFU_COLUMNS.join(","), line: formatEFURecord };
+    case "jsonl":
+      return { header: null, line: (result) => JSON.stringify(result) };
+    case "m3u":
+    case "m3u8":
+      return { header: "#EXTM3U", line: (result) => result.fullPath };
+    case "txt":
+      return { header: null, line: (result) => result.fullPath };
+  }
+}
+
+/**
+ * Format a column value; unknown values are left empty
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  return value instanceof Date ? value.toISOString() : String(value);
+}
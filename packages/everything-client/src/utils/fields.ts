@@ -0,0 +1,24 @@
+import type { SearchField, SearchOptions } from "../types";
+
+/**
+ * Every field that can be requested through the `fields` search option
+ */
+export const SEARCH_FIELDS: readonly SearchField[] = [
+  "name",
+  "path",
+  "size",
+  "dateModified",
+  "dateCreated",
+  "dateAccessed",
+  "attributes",
+  "runCount",
+  "dateRecentlyChanged",
+];
+
+/**
+ * Resolve the fields requested by a search, defaulting to all of them.
+ * The name and path are always included since every result carries them.
+ */
+export function resolveFields(options: SearchOptions): Set<SearchField> {
+  return new Set(["name", "path", ...(options.fields ?? SEARCH_FIELDS)]);
+}
@@ -0,0 +1,46 @@
+/**
+ * 100-nanosecond intervals between 1601-01-01 and 1970-01-01 UTC
+ */
+export const WINDOWS_EPOCH_OFFSET = 116444736000000000n;
+
+/**
+ * Value Everything reports for a date it does not know
+ */
+const UNKNOWN_FILETIME = 0xffffffffffffffffn;
+
+/**
+ * Convert a Windows FILETIME (100-nanosecond intervals since 1601-01-01 UTC)
+ * to a Date. Returns null for missing or unknown timestamps.
+ */
+export function fileTimeToDate(
+  fileTime: bigint | number | string | null | undefined,
+): Date | null {
+  if (fileTime === null || fileTime === undefined || fileTime === "") {
+    return null;
+  }
+
+  let ticks: bigint;
+  try {
+    ticks =
+      typeof fileTime === "number"
+        ? BigInt(Math.trunc(fileTime))
+        : BigInt(fileTime);
+  } catch {
+    return null;
+  }
+
+  // Unknown dates are reported as 0 or -1, which reads as all bits set
+  // once the value has gone through an unsigned 64-bit conversion
+  if (ticks <= 0n || ticks >= UNKNOWN_FILETIME) {
+    return null;
+  }
+
+  return new Date(Number((ticks - WINDOWS_EPOCH_OFFSET) / 10000n));
+}
+
+/**
+ * Convert a Date to a Windows FILETIME
+ */
+export function dateToFileTime(date: Date): bigint {
+  return BigInt(date.getTime()) * 10000n + WINDOWS_EPOCH_OFFSET;
+}
@@ -1 +1,15 @@
+export * from "./abort";
+export * from "./capabilities";
+export * from "./change-feed";
+export * from "./circuit-breaker";
+export * from "./csv";
+export * from "./efu";
 export * from "./errors";
+export * from "./export";
+export * from "./fields";
+export * from "./filetime";
+export * from "./operation-queue";
+export * from "./pagination";
+export * from "./retry";
+export * from "./sort";
+export * from "./watch";
@@ -0,0 +1,116 @@
+import { EverythingAbortError } from "./errors";
+
+/**
+ * Priority of a queued operation. Higher priorities run first and equal
+ * priorities run in the order they were queued.
+ */
+export type OperationPriority = "high" | "normal" | "low";
+
+/**
+ * Options for a queued operation
+ */
+export interface QueuedOperationOptions {
+  /** Priority of the operation (defaults to "normal") */
+  priority?: OperationPriority;
+  /** Signal that removes the operation from the queue before it starts */
+  signal?: AbortSignal;
+}
+
+/**
+ * Position of each priority in the queue
+ */
+const PRIORITY_RANK: Record<OperationPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+/**
+ * An operation waiting for its turn
+ */
+interface PendingOperation {
+  rank: number;
+  start: () => void;
+}
+
+/**
+ * Runs operations one at a time, for APIs that keep global state between
+ * calls such as the Everything SDK
+ */
+export class OperationQueue {
+  private pending: PendingOperation[] = [];
+  private running = false;
+
+  /**
+   * Number of operations waiting to start
+   */
+  public get size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Queue an operation and wait for its result. The operation may call
+   * `hold` to keep later operations waiting until a promise settles, even
+   * after its own result has been delivered.
+   */
+  public run<T>(
+    operation: (hold: (until: PromiseLike<unknown>) => void) => T | Promise<T>,
+    options: QueuedOperationOptions = {},
+  ): Promise<T> {
+    const { priority = "normal", signal } = options;
+
+    return new Promise<T>((resolve, reject) => {
+      const abort = () => {
+        const index = this.pending.indexOf(entry);
+        if (index !== -1) {
+          this.pending.splice(index, 1);
+          reject(
+            new EverythingAbortError(undefined, { cause: signal?.reason }),
+          );
+        }
+      };
+
+      const entry: PendingOperation = {
+        rank: PRIORITY_RANK[priority],
+        start: () => {
+          const holds: PromiseLike<unknown>[] = [];
+          signal?.removeEventListener("abort", abort);
+          Promise.resolve()
+            .then(() => operation((until) => holds.push(until)))
+            .then(resolve, reject)
+            .finally(() => Promise.allSettled(holds))
+            .finally(() => {
+              this.running = false;
+              this.next();
+            });
+        },
+      };
+
+      if (signal?.aborted) {
+        reject(new EverythingAbortError(undefined, { cause: signal.reason }));
+        return;
+      }
+
+      // Queue after every operation of the same or a higher priority
+      const index = this.pending.findIndex((other) => other.rank > entry.rank);
+      this.pending.splice(index === -1 ? this.pending.length : index, 0, entry);
+      signal?.addEventListener("abort", abort, { once: true });
+      this.next();
+    });
+  }
+
+  /**
+   * Start the next operation if none is running
+   */
+  private next(): void {
+    if (this.running) {
+      return;
+    }
+
+    const entry = this.pending.shift();
+    if (entry) {
+      this.running = true;
+      entry.start();
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { existsSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+/**
+ * Where the assets folder is from a module in dist, dist/chunks or
+ * src/adapters
+ */
+export const ASSET_DIRS = ["../assets/bin", "../../assets/bin"] as const;
+
+/**
+ * Find a file shipped with the package. The build moves modules between
+ * dist and dist/chunks, so each path is tried relative to the module.
+ * @param moduleUrl `import.meta.url` of the module looking for the file
+ * @param candidates Relative paths to try, in order
+ * @returns The first path that exists, or null
+ */
+export function findPackageFile(
+  moduleUrl: string,
+  candidates: readonly string[],
+): string | null {
+  for (const candidate of candidates) {
+    const path = fileURLToPath(new URL(candidate, moduleUrl));
+    if (existsSync(path)) {
+      return path;
+    }
+  }
+
+  return null;
+}
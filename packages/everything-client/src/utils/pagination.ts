@@ -0,0 +1,144 @@
+import type {
+  SearchField,
+  SearchIterator,
+  SearchIteratorOptions,
+  SearchOptions,
+  SearchResult,
+  SearchResultSet,
+} from "../types";
+import { EverythingError } from "./errors";
+
+/**
+ * Default number of results fetched per page by search iterators
+ */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * A single page of results together with the total number of matches
+ */
+export interface SearchPage<T = SearchResult> {
+  items: T[];
+  totalResults: number;
+  /** Fields the adapter returned for the items */
+  availableFields: SearchField[];
+}
+
+/**
+ * Fetch one page of results for the given offset and count
+ */
+export type SearchPageFetcher<T = SearchResult> = (
+  options: SearchOptions,
+) => Promise<SearchPage<T>>;
+
+/**
+ * Create an async iterator that pages through results with the given fetcher
+ */
+export function createSearchIterator<T>(
+  fetchPage: SearchPageFetcher<T>,
+  options: SearchIteratorOptions = {},
+): SearchIterator<T> {
+  return new PagedSearchIterator(fetchPage, options);
+}
+
+/**
+ * Fetch one page with the given fetcher and wrap it in a result set
+ */
+export async function fetchSearchResultSet<T>(
+  fetchPage: SearchPageFetcher<T>,
+  query: string,
+  options: SearchOptions = {},
+): Promise<SearchResultSet<T>> {
+  const normalized: SearchOptions = { ...options, offset: options.offset ?? 0 };
+  const page = await fetchPage(normalized);
+  const offset = normalized.offset ?? 0;
+  const hasMore =
+    page.items.length > 0 && offset + page.items.length < page.totalResults;
+
+  return {
+    items: page.items,
+    totalResults: page.totalResults,
+    offset,
+    hasMore,
+    query,
+    availableFields: page.availableFields,
+    options: normalized,
+    next: async () =>
+      hasMore
+        ? fetchSearchResultSet(fetchPage, query, {
+            ...normalized,
+            offset: offset + page.items.length,
+          })
+        : null,
+  };
+}
+
+/**
+ * Iterator that requests pages lazily, one at a time, so breaking out of a
+ * `for await` loop never issues another request
+ */
+class PagedSearchIterator<T> implements SearchIterator<T> {
+  private total: number | undefined;
+  private readonly pages: AsyncGenerator<T, undefined>;
+
+  constructor(fetchPage: SearchPageFetcher<T>, options: SearchIteratorOptions) {
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new EverythingError(`Invalid page size: ${pageSize}`);
+    }
+
+    this.pages = this.fetchAll(fetchPage, options, pageSize);
+  }
+
+  public get totalResults(): number | undefined {
+    return this.total;
+  }
+
+  public next(): Promise<IteratorResult<T, undefined>> {
+    return this.pages.next();
+  }
+
+  public return(): Promise<IteratorResult<T, undefined>> {
+    return this.pages.return(undefined);
+  }
+
+  public throw(error?: unknown): Promise<IteratorResult<T, undefined>> {
+    return this.pages.throw(error);
+  }
+
+  public [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  private async *fetchAll(
+    fetchPage: SearchPageFetcher<T>,
+    options: SearchIteratorOptions,
+    pageSize: number,
+  ): AsyncGenerator<T, undefined> {
+    const { pageSize: _, maxResults, offset = 0, ...searchOptions } = options;
+    let position = offset;
+    let remaining = maxResults ?? Number.POSITIVE_INFINITY;
+
+    while (remaining > 0) {
+      const count = Math.min(pageSize, remaining);
+      const page = await fetchPage({
+        ...searchOptions,
+        offset: position,
+        maxResults: count,
+      });
+      this.total = page.totalResults;
+
+      for (const item of page.items) {
+        yield item;
+      }
+
+      position += page.items.length;
+      remaining -= page.items.length;
+
+      if (page.items.length < count || position >= page.totalResults) {
+        break;
+      }
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,111 @@
+import type { RetryOptions } from "../types";
+import { throwIfAborted } from "./abort";
+import { EverythingAbortError, EverythingError } from "./errors";
+
+/**
+ * Default retry options
+ */
+const DEFAULT_OPTIONS: Required<Omit<RetryOptions, "retryableCodes">> = {
+  maxAttempts: 3,
+  initialDelay: 200,
+  maxDelay: 5000,
+  backoff: 2,
+  jitter: 0.5,
+};
+
+/**
+ * Check whether an error is worth retrying: an Everything error with one of
+ * the given codes, or flagged as retryable when no codes are given
+ */
+export function isRetryableError(
+  error: unknown,
+  codes?: RetryOptions["retryableCodes"],
+): boolean {
+  if (!(error instanceof EverythingError)) {
+    return false;
+  }
+  return codes ? codes.includes(error.code) : error.retryable;
+}
+
+/**
+ * Retries failed operations with exponential backoff and jitter
+ */
+export class RetryPolicy {
+  private options: RetryOptions & typeof DEFAULT_OPTIONS;
+
+  constructor(options: RetryOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    const { maxAttempts, initialDelay, maxDelay, backoff, jitter } =
+      this.options;
+    if (
+      !(Number.isInteger(maxAttempts) && maxAttempts >= 1) ||
+      !(initialDelay >= 0) ||
+      !(maxDelay >= initialDelay) ||
+      !(backoff >= 1) ||
+      !(jitter >= 0 && jitter <= 1)
+    ) {
+      throw new EverythingError(
+        `Invalid retry options: maxAttempts ${maxAttempts}, initialDelay ${initialDelay}, maxDelay ${maxDelay}, backoff ${backoff}, jitter ${jitter}`,
+        { code: "invalid-parameter" },
+      );
+    }
+  }
+
+  /**
+   * Check whether the policy retries an error
+   */
+  public isRetryable(error: unknown): boolean {
+    return isRetryableError(error, this.options.retryableCodes);
+  }
+
+  /**
+   * Run an operation, retrying retryable failures until the attempts run
+   * out. Aborting the signal stops waiting for the next attempt.
+   */
+  public async execute<T>(
+    operation: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (attempt >= this.options.maxAttempts || !this.isRetryable(error)) {
+          throw error;
+        }
+        await sleep(this.delayBefore(attempt + 1), signal);
+      }
+    }
+  }
+
+  /**
+   * Backoff delay before an attempt, with part of it randomized so that
+   * clients do not retry in lockstep
+   */
+  private delayBefore(attempt: number): number {
+    const { initialDelay, maxDelay, backoff, jitter } = this.options;
+    const delay = Math.min(maxDelay, initialDelay * backoff ** (attempt - 2));
+    return delay * (1 - jitter * Math.random());
+  }
+}
+
+/**
+ * Wait for a number of milliseconds, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  throwIfAborted(signal);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new EverythingAbortError(undefined, { cause: signal?.reason }));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
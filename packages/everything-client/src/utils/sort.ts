@@ -0,0 +1,96 @@
+import type { SearchOptions, SearchResult } from "../types";
+
+/**
+ * A result with any selection of fields; missing fields sort as unknown
+ */
+export type SortableResult = Pick<SearchResult, "name" | "path" | "fullPath"> &
+  Partial<SearchResult>;
+
+/**
+ * Compare two results by a single sort key
+ */
+function compareBy(
+  a: SortableResult,
+  b: SortableResult,
+  sortBy: NonNullable<SearchOptions["sortBy"]>,
+): number {
+  switch (sortBy) {
+    case "name":
+      return compareText(a.name, b.name);
+    case "path":
+      return compareText(a.path, b.path) || compareText(a.name, b.name);
+    case "size":
+      return compareNumber(a.size ?? null, b.size ?? null);
+    case "extension":
+      return compareText(extensionOf(a.name), extensionOf(b.name));
+    case "date":
+      return compareNumber(
+        a.dateModified?.getTime() ?? null,
+        b.dateModified?.getTime() ?? null,
+      );
+    case "date-created":
+      return compareNumber(
+        a.dateCreated?.getTime() ?? null,
+        b.dateCreated?.getTime() ?? null,
+      );
+    case "date-accessed":
+      return compareNumber(
+        a.dateAccessed?.getTime() ?? null,
+        b.dateAccessed?.getTime() ?? null,
+      );
+    case "attributes":
+      return compareNumber(a.attributes ?? null, b.attributes ?? null);
+    case "run-count":
+      return compareNumber(a.runCount ?? null, b.runCount ?? null);
+    case "date-recently-changed":
+      return compareNumber(
+        a.dateRecentlyChanged?.getTime() ?? null,
+        b.dateRecentlyChanged?.getTime() ?? null,
+      );
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Extension of a file name, without the dot
+ */
+function extensionOf(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot + 1) : "";
+}
+
+/**
+ * Numeric comparison that orders unknown values first
+ */
+function compareNumber(a: number | null, b: number | null): number {
+  if (a === null || b === null) {
+    return (a === null ? 0 : 1) - (b === null ? 0 : 1);
+  }
+  return a - b;
+}
+
+/**
+ * Case-insensitive comparison, the way Everything orders names
+ */
+export function compareText(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { sensitivity: "accent" });
+}
+
+/**
+ * Sort results the way Everything would for the given options.
+ * Ties are broken by full path so the order is deterministic.
+ */
+export function sortResults<T extends SortableResult>(
+  results: T[],
+  sortBy: SearchOptions["sortBy"] = "name",
+  sortOrder: SearchOptions["sortOrder"] = "asc",
+): T[] {
+  const direction = sortOrder === "desc" ? -1 : 1;
+
+  return [...results].sort(
+    (a, b) =>
+      direction * compareBy(a, b, sortBy) ||
+      compareText(a.fullPath, b.fullPath),
+  );
+}
@@ -0,0 +1,222 @@
+import type { BaseAdapter } from "../adapters/base-adapter";
+import type {
+  FileChange,
+  FileChangeCallback,
+  SearchQuery,
+  SelectedSearchResult,
+  Unsubscribe,
+  WatchOptions,
+} from "../types";
+import { EverythingError } from "./errors";
+
+/**
+ * Options that control a polling loop
+ */
+export type PollingOptions = Pick<
+  WatchOptions,
+  "interval" | "maxInterval" | "backoff" | "onError"
+>;
+
+/**
+ * Default polling options
+ */
+const DEFAULT_OPTIONS: Required<
+  Pick<PollingOptions, "interval" | "maxInterval" | "backoff">
+> = {
+  interval: 5000,
+  maxInterval: 60000,
+  backoff: 2,
+};
+
+/**
+ * Size and modification time of each result, keyed by full path
+ */
+type Snapshot = Map<string, string>;
+
+/**
+ * Poll a query through an adapter and report the differences between
+ * consecutive result sets. The first poll only records a baseline.
+ * @returns Function to stop watching
+ */
+export function watchQuery(
+  adapter: Pick<BaseAdapter, "searchIterator">,
+  query: SearchQuery,
+  options: WatchOptions,
+  callback: FileChangeCallback,
+): Unsubscribe {
+  const { interval, maxInterval, backoff, onError, ...searchOptions } = options;
+  let snapshot: Snapshot | null = null;
+
+  return pollChanges(
+    async () => {
+      const current: Snapshot = new Map();
+      const results = adapter.searchIterator(query, {
+        ...searchOptions,
+        fields: ["size", "dateModified"],
+      });
+
+      for await (const result of results) {
+        current.set(result.fullPath, signatureOf(result));
+      }
+
+      const changes = snapshot ? diffSnapshots(snapshot, current) : [];
+      snapshot = current;
+      return changes;
+    },
+    options,
+    callback,
+  );
+}
+
+/**
+ * Run a change detector on an interval, passing non-empty results to the
+ * callback. Failed polls back off exponentially up to maxInterval and the
+ * interval resets after the next success.
+ * @returns Function to stop polling
+ */
+export function pollChanges(
+  detect: () => Promise<FileChange[]>,
+  options: PollingOptions,
+  callback: FileChangeCallback,
+): Unsubscribe {
+  const poller = new ChangePoller(detect, options, callback);
+  poller.start();
+  return () => poller.stop();
+}
+
+/**
+ * Compare two snapshots of a query's results
+ */
+function diffSnapshots(previous: Snapshot, current: Snapshot): FileChange[] {
+  const changes: FileChange[] = [];
+
+  for (const path of previous.keys()) {
+    if (!current.has(path)) {
+      changes.push({ path, type: "deleted" });
+    }
+  }
+
+  for (const [path, signature] of current) {
+    const previousSignature = previous.get(path);
+    if (previousSignature === undefined) {
+      changes.push({ path, type: "added" });
+    } else if (previousSignature !== signature) {
+      changes.push({ path, type: "modified" });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Fingerprint of a result that changes when the file is modified
+ */
+function signatureOf(
+  result: SelectedSearchResult<"size" | "dateModified">,
+): string {
+  return `${result.size ?? ""}:${result.dateModified?.getTime() ?? ""}`;
+}
+
+/**
+ * Polling loop behind pollChanges()
+ */
+class ChangePoller {
+  private detect: () => Promise<FileChange[]>;
+  private options: PollingOptions & typeof DEFAULT_OPTIONS;
+  private callback: FileChangeCallback;
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private delay: number;
+
+  constructor(
+    detect: () => Promise<FileChange[]>,
+    options: PollingOptions,
+    callback: FileChangeCallback,
+  ) {
+    this.detect = detect;
+    const pollInterval = options.interval ?? DEFAULT_OPTIONS.interval;
+    this.options = {
+      ...options,
+      interval: pollInterval,
+      // A long interval raises the default ceiling instead of failing
+      maxInterval:
+        options.maxInterval ??
+        Math.max(pollInterval, DEFAULT_OPTIONS.maxInterval),
+      backoff: options.backoff ?? DEFAULT_OPTIONS.backoff,
+    };
+    this.callback = callback;
+
+    const { interval, maxInterval, backoff } = this.options;
+    if (!(interval > 0) || !(maxInterval >= interval) || !(backoff >= 1)) {
+      throw new EverythingError(
+        `Invalid polling options: interval ${interval}, maxInterval ${maxInterval}, backoff ${backoff}`,
+      );
+    }
+
+    this.delay = interval;
+  }
+
+  public start(): void {
+    this.running = true;
+    this.poll();
+  }
+
+  public stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    let changes: FileChange[] = [];
+
+    try {
+      changes = await this.detect();
+      this.delay = this.options.interval;
+    } catch (error) {
+      this.report(error);
+      this.delay = Math.min(
+        this.delay * this.options.backoff,
+        this.options.maxInterval,
+      );
+    }
+
+    if (!this.running) {
+      return;
+    }
+
+    // A throwing callback must not end the polling loop
+    try {
+      if (changes.length > 0) {
+        this.callback(changes);
+      }
+    } catch (error) {
+      this.report(error, "Error in change callback:");
+    } finally {
+      if (this.running) {
+        this.timer = setTimeout(() => this.poll(), this.delay);
+      }
+    }
+  }
+
+  /**
+   * Pass an error to onError, or log it under the given message when there
+   * is no handler. A throwing handler is logged rather than ending the loop.
+   */
+  private report(error: unknown, message?: string): void {
+    if (!this.options.onError) {
+      if (message) {
+        console.error(message, error);
+      }
+      return;
+    }
+
+    try {
+      this.options.onError(error);
+    } catch (handlerError) {
+      console.error("Error in onError handler:", handlerError);
+    }
+  }
+}
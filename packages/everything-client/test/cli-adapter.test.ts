@@ -0,0 +1,180 @@
+import { EventEmitter } from "node:events";
+import { Readable } from "node:stream";
+import { describe, expect, it } from "vitest";
+import {
+  type CLIProcess,
+  buildCLIArgs,
+  createCLIAdapter,
+} from "../src/adapters/cli-adapter";
+import type { SearchOptions } from "../src/types";
+import { assertSearchSupported } from "../src/utils/capabilities";
+import { EverythingUnsupportedError } from "../src/utils/errors";
+
+/**
+ * Get the value passed to `-sort`, if any
+ */
+function sortArgument(options: SearchOptions): string | undefined {
+  const args = buildCLIArgs("query", options);
+  const index = args.indexOf("-sort");
+  return index === -1 ? undefined : args[index + 1];
+}
+
+describe("buildCLIArgs", () => {
+  // Names documented by es.exe for `-sort <name>[-ascending|-descending]`
+  it.each<[SearchOptions["sortBy"], string]>([
+    ["name", "name"],
+    ["path", "path"],
+    ["size", "size"],
+    ["extension", "extension"],
+    ["date", "date-modified"],
+    ["date-created", "date-created"],
+    ["date-accessed", "date-accessed"],
+    ["attributes", "attributes"],
+    ["run-count", "run-count"],
+    ["date-recently-changed", "date-recently-changed"],
+    ["date-run", "date-run"],
+  ])("sorts by %s as -sort %s", (sortBy, name) => {
+    expect(sortArgument({ sortBy })).toBe(`${name}-ascending`);
+    expect(sortArgument({ sortBy, sortOrder: "asc" })).toBe(
+      `${name}-ascending`,
+    );
+    expect(sortArgument({ sortBy, sortOrder: "desc" })).toBe(
+      `${name}-descending`,
+    );
+  });
+
+  it("sorts by name when only the order is given", () => {
+    expect(sortArgument({ sortOrder: "desc" })).toBe("name-descending");
+  });
+
+  it("keeps the default order without sort options", () => {
+    expect(sortArgument({})).toBeUndefined();
+  });
+
+  it("leaves out type-name, which es.exe cannot sort by", async () => {
+    expect(sortArgument({ sortBy: "type-name" })).toBeUndefined();
+
+    const capabilities = await createCLIAdapter({
+      cliPath: "es",
+    }).getCapabilities();
+    expect(capabilities.sortKeys).not.toContain("type-name");
+    expect(() =>
+      assertSearchSupported("cli", capabilities, { sortBy: "type-name" }),
+    ).toThrow(EverythingUnsupportedError);
+  });
+
+  it("builds the full argument list for a page", () => {
+    expect(
+      buildCLIArgs("foo bar", {
+        matchCase: true,
+        maxResults: 10,
+        offset: 20,
+        sortBy: "size",
+        sortOrder: "desc",
+        fields: ["size", "dateModified"],
+      }),
+    ).toEqual([
+      "-case",
+      "-n",
+      "10",
+      "-o",
+      "20",
+      "-sort",
+      "size-descending",
+      "-full-path-and-name",
+      "-size",
+      "-date-modified",
+      "-attributes",
+      "-size-format",
+      "1",
+      "-date-format",
+      "2",
+      "-csv",
+      "foo bar",
+    ]);
+  });
+});
+
+/**
+ * Number of files the fake es.exe matches
+ */
+const FAKE_TOTAL = 5;
+
+/**
+ * Start a fake es.exe that prints its output and exits
+ */
+function fakeProcess(output: string): CLIProcess {
+  const child = Object.assign(new EventEmitter(), {
+    stdout: Readable.from([output]),
+    stderr: Readable.from([]),
+    kill: () => true,
+  });
+  child.stdout.once("end", () => {
+    setImmediate(() => child.emit("close", 0));
+  });
+  return child;
+}
+
+/**
+ * Create an adapter over a fake es.exe, recording the arguments of each run
+ */
+function createFakeCLIAdapter() {
+  const runs: string[][] = [];
+  const adapter = createCLIAdapter({
+    cliPath: "es",
+    runner: (_command, args) => {
+      runs.push(args);
+      if (args.includes("-get-result-count")) {
+        return fakeProcess(`${FAKE_TOTAL}\r\n`);
+      }
+      if (args.includes("-h")) {
+        return fakeProcess("");
+      }
+
+      const option = (name: string, fallback: number) => {
+        const index = args.indexOf(name);
+        return index === -1 ? fallback : Number(args[index + 1]);
+      };
+      const offset = option("-o", 0);
+      const count = Math.min(option("-n", FAKE_TOTAL), FAKE_TOTAL - offset);
+      const lines = ["Filename,Attributes"];
+      for (let i = offset; i < offset + Math.max(0, count); i++) {
+        lines.push(`C:\\Files\\file${i}.txt,A`);
+      }
+      return fakeProcess(`${lines.join("\r\n")}\r\n`);
+    },
+  });
+  const searches = () =>
+    runs
+      .filter((args) => !args.includes("-h"))
+      .map((args) => args.includes("-get-result-count"));
+  return { adapter, searches };
+}
+
+describe("CLIAdapter.search", () => {
+  it("takes the total from a page that is not full", async () => {
+    const { adapter, searches } = createFakeCLIAdapter();
+
+    const results = await adapter.search("file", { offset: 2, maxResults: 10 });
+    expect(results.items.map(({ name }) => name)).toEqual([
+      "file2.txt",
+      "file3.txt",
+      "file4.txt",
+    ]);
+    expect(results.totalResults).toBe(FAKE_TOTAL);
+    expect(searches()).toEqual([false]);
+    await expect(adapter.getSearchStatus()).resolves.toMatchObject({
+      totalResults: FAKE_TOTAL,
+    });
+  });
+
+  it("counts the matches after a full page", async () => {
+    const { adapter, searches } = createFakeCLIAdapter();
+
+    const results = await adapter.search("file", { maxResults: 2 });
+    expect(results.items).toHaveLength(2);
+    expect(results.totalResults).toBe(FAKE_TOTAL);
+    expect(results.hasMore).toBe(true);
+    expect(searches()).toEqual([false, true]);
+  });
+});
@@ -0,0 +1,94 @@
+import { PassThrough } from "node:stream";
+import { describe, expect, it, vi } from "vitest";
+import { createFailoverAdapter } from "../src/adapters/failover-adapter";
+import { MemoryAdapter } from "../src/adapters/memory-adapter";
+import { createClient } from "../src/client";
+import type {
+  SearchField,
+  SearchIterator,
+  SearchIteratorOptions,
+  SearchOptions,
+  SearchQuery,
+  SearchResultSet,
+  SelectedSearchResult,
+} from "../src/types";
+import { EverythingConnectionError } from "../src/utils/errors";
+import { createSearchIterator } from "../src/utils/pagination";
+
+const FILES = ["C:\\Docs\\a.txt", "C:\\Docs\\b.txt", "C:\\Docs\\c.txt"];
+
+/**
+ * Memory adapter whose first searches fail like a dropped connection
+ */
+class FlakyAdapter extends MemoryAdapter {
+  public failures = 1;
+
+  public override async search<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: SearchOptions<F> = {},
+  ): Promise<SearchResultSet<SelectedSearchResult<F>>> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new EverythingConnectionError("Connection reset", {
+        adapter: "http",
+      });
+    }
+    return super.search(query, options);
+  }
+
+  public override searchIterator<F extends SearchField = SearchField>(
+    query: SearchQuery,
+    options: SearchIteratorOptions<F> = {},
+  ): SearchIterator<SelectedSearchResult<F>> {
+    return createSearchIterator(
+      (pageOptions) => this.search(query, pageOptions as SearchOptions<F>),
+      options,
+    );
+  }
+}
+
+describe("client.exportResults", () => {
+  it("retries pages of a client-side export behind a failover adapter", async () => {
+    const flaky = new FlakyAdapter({ files: FILES });
+    const client = createClient({
+      adapter: createFailoverAdapter([{ name: "http", create: () => flaky }]),
+      retry: { maxAttempts: 2, initialDelay: 0, jitter: 0 },
+    });
+
+    const destination = new PassThrough();
+    const chunks: Buffer[] = [];
+    destination.on("data", (chunk: Buffer) => chunks.push(chunk));
+
+    await expect(
+      client.exportResults("", { format: "txt", destination, pageSize: 2 }),
+    ).resolves.toBe(3);
+    expect(flaky.failures).toBe(0);
+    expect(Buffer.concat(chunks).toString("utf8")).toBe(
+      `${FILES.join("\r\n")}\r\n`,
+    );
+  });
+
+  it("uses the native export of the adapter behind a failover adapter", async () => {
+    const adapter = new MemoryAdapter({ files: FILES });
+    const exportResults = vi.fn(async () => 42);
+    const client = createClient({
+      adapter: createFailoverAdapter([
+        {
+          name: "cli",
+          create: () => Object.assign(adapter, { exportResults }),
+        },
+      ]),
+    });
+
+    await expect(
+      client.exportResults("", {
+        format: "csv",
+        destination: "results.csv",
+      }),
+    ).resolves.toBe(42);
+    expect(exportResults).toHaveBeenCalledWith("", {
+      format: "csv",
+      destination: "results.csv",
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PassThrough } from "node:stream";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ExportFormat, SearchResult } from "../src/types";
+import { exportSearchResults } from "../src/utils/export";
+
+const RESULTS: SearchResult[] = [
+  {
+    name: "Docs",
+    path: "C:\\Users",
+    fullPath: "C:\\Users\\Docs",
+    isDirectory: true,
+    size: null,
+    dateModified: new Date("2024-01-02T03:04:05Z"),
+    dateCreated: null,
+    dateAccessed: null,
+    attributes: null,
+    isHidden: null,
+    isSystem: null,
+    isReadOnly: null,
+    runCount: 0,
+    dateRecentlyChanged: null,
+  },
+  {
+    name: "a, b.txt",
+    path: "C:\\Users\\Docs",
+    fullPath: "C:\\Users\\Docs\\a, b.txt",
+    isDirectory: false,
+    size: 12,
+    dateModified: null,
+    dateCreated: null,
+    dateAccessed: null,
+    attributes: 0x20,
+    isHidden: false,
+    isSystem: false,
+    isReadOnly: false,
+    runCount: 3,
+    dateRecentlyChanged: null,
+  },
+];
+
+async function* results(): AsyncGenerator<SearchResult> {
+  yield* RESULTS;
+}
+
+/**
+ * Export RESULTS to a stream and return what was written
+ */
+async function exportText(
+  format: ExportFormat,
+  fields: ("size" | "dateModified")[] = ["size"],
+): Promise<string> {
+  const destination = new PassThrough();
+  const chunks: Buffer[] = [];
+  destination.on("data", (chunk: Buffer) => chunks.push(chunk));
+
+  await expect(
+    exportSearchResults(results(), { format, destination, fields }),
+  ).resolves.toBe(RESULTS.length);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+describe("exportSearchResults", () => {
+  it.each<[ExportFormat, string]>([
+    [
+      "csv",
+      'Filename,Size\r\nC:\\Users\\Docs,\r\n"C:\\Users\\Docs\\a, b.txt",12\r\n',
+    ],
+    [
+      "tsv",
+      "Filename\tSize\r\nC:\\Users\\Docs\t\r\nC:\\Users\\Docs\\a, b.txt\t12\r\n",
+    ],
+    ["txt", "C:\\Users\\Docs\r\nC:\\Users\\Docs\\a, b.txt\r\n"],
+    ["m3u8", "#EXTM3U\r\nC:\\Users\\Docs\r\nC:\\Users\\Docs\\a, b.txt\r\n"],
+  ])("writes %s", async (format, expected) => {
+    expect(await exportText(format)).toBe(expected);
+  });
+
+  it("formats dates as ISO strings in CSV", async () => {
+    expect(await exportText("csv", ["dateModified"])).toBe(
+      'Filename,Date Modified\r\nC:\\Users\\Docs,2024-01-02T03:04:05.000Z\r\n"C:\\Users\\Docs\\a, b.txt",\r\n',
+    );
+  });
+
+  it("writes one JSON object per line for jsonl", async () => {
+    const lines = (await exportText("jsonl")).split("\n");
+    expect(lines.pop()).toBe("");
+    expect(lines.map((line) => JSON.parse(line).fullPath)).toEqual(
+      RESULTS.map(({ fullPath }) => fullPath),
+    );
+  });
+
+  it("writes an Everything File List for efu", async () => {
+    expect(await exportText("efu")).toBe(
+      [
+        "Filename,Size,Date Modified,Date Created,Attributes",
+        '"C:\\Users\\Docs",,133486382450000000,,16',
+        '"C:\\Users\\Docs\\a, b.txt",12,,,32',
+        "",
+      ].join("\r\n"),
+    );
+  });
+
+  it("rejects unknown formats", async () => {
+    await expect(
+      exportSearchResults(results(), {
+        format: "xml" as ExportFormat,
+        destination: new PassThrough(),
+      }),
+    ).rejects.toMatchObject({ code: "invalid-parameter" });
+  });
+
+  describe("to a file", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "everything-export-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("writes and closes the file", async () => {
+      const destination = join(dir, "results.txt");
+      await expect(
+        exportSearchResults(results(), { format: "txt", destination }),
+      ).resolves.toBe(2);
+      expect(await readFile(destination, "utf8")).toBe(
+        "C:\\Users\\Docs\r\nC:\\Users\\Docs\\a, b.txt\r\n",
+      );
+    });
+
+    it("rejects when the file cannot be opened", async () => {
+      await expect(
+        exportSearchResults(results(), {
+          format: "txt",
+          destination: join(dir, "missing", "results.txt"),
+        }),
+      ).rejects.toMatchObject({ code: "ENOENT" });
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { createFailoverAdapter } from "../src/adapters/failover-adapter";
+import { MemoryAdapter } from "../src/adapters/memory-adapter";
+import type {
+  SearchField,
+  SearchOptions,
+  SearchQuery,
+  SearchResultSet,
+  SelectedSearchResult,
+} from "../src/types";
+import {
+  EverythingConnectionError,
+  type EverythingError,
+  EverythingSearchError,
+} from "../src/utils/errors";
+
+/**
+ * Memory adapter whose searches fail with the given error
+ */
+class FailingAdapter extends MemoryAdapter {
+  constructor(private error: EverythingError) {
+    super();
+  }
+
+  public override async search<F extends SearchField = SearchField>(
+    _query: SearchQuery,
+    _options: SearchOptions<F> = {},
+  ): Promise<SearchResultSet<SelectedSearchResult<F>>> {
+    throw this.error;
+  }
+}
+
+/**
+ * Failover chain of a failing IPC adapter and a working HTTP adapter
+ */
+function createChain(error: EverythingError) {
+  return createFailoverAdapter([
+    { name: "ipc", create: () => new FailingAdapter(error) },
+    {
+      name: "http",
+      create: () => new MemoryAdapter({ files: ["C:\\Docs\\a.txt"] }),
+    },
+  ]);
+}
+
+describe("FailoverAdapter", () => {
+  it("switches adapters when the active one cannot reach Everything", async () => {
+    const adapter = createChain(
+      new EverythingConnectionError("Connection reset", { adapter: "ipc" }),
+    );
+
+    await expect(adapter.search("a")).resolves.toMatchObject({
+      totalResults: 1,
+    });
+    expect(adapter.getActiveAdapter()).toBe("http");
+  });
+
+  it.each([
+    new EverythingSearchError("Search failed", { adapter: "ipc" }),
+    new EverythingSearchError("Bad offset", { code: "invalid-parameter" }),
+  ])("keeps the active adapter when it reports $message", async (error) => {
+    const adapter = createChain(error);
+
+    await expect(adapter.search("a")).rejects.toBe(error);
+    expect(adapter.getActiveAdapter()).toBe("ipc");
+  });
+});
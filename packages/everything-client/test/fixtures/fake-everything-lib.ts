@@ -0,0 +1,93 @@
+import { execFileSync } from "node:child_process";
+import type { EverythingLib } from "../../src/adapters/ipc-sdk";
+
+/**
+ * Files in the fake index
+ */
+export const FAKE_FILES = [
+  { name: "Docs", path: "C:\\Users", isDirectory: true },
+  { name: "report.pdf", path: "C:\\Users\\Docs", size: 2048 },
+  { name: "notes.txt", path: "C:\\Users\\Docs", size: 12 },
+];
+
+/**
+ * Query that blocks the fake library, like a stuck SDK call
+ */
+export const SLOW_QUERY = "slow";
+
+/**
+ * How long the slow query blocks the thread, in milliseconds
+ */
+export const SLOW_QUERY_MS = 1500;
+
+/**
+ * Create a stand-in for the Everything DLL that searches FAKE_FILES by name
+ */
+export function createFakeEverythingLib(): EverythingLib {
+  let search = "";
+  let max = Number.POSITIVE_INFINITY;
+  let offset = 0;
+  let matches = FAKE_FILES;
+  let page = FAKE_FILES;
+  const ignore = () => {};
+
+  return {
+    Everything_SetSearchW: (query) => {
+      search = query;
+    },
+    Everything_SetMatchPath: ignore,
+    Everything_SetMatchCase: ignore,
+    Everything_SetMatchWholeWord: ignore,
+    Everything_SetRegex: ignore,
+    Everything_SetMax: (value) => {
+      max = value;
+    },
+    Everything_SetOffset: (value) => {
+      offset = value;
+    },
+    Everything_SetSort: ignore,
+    Everything_SetRequestFlags: ignore,
+    Everything_QueryW: () => {
+      if (search === SLOW_QUERY) {
+        // Sleep in a child process, which terminating a worker cannot cut short
+        execFileSync(process.execPath, [
+          "-e",
+          `setTimeout(() => {}, ${SLOW_QUERY_MS})`,
+        ]);
+      }
+      matches = FAKE_FILES.filter(
+        ({ name }) => search === "*" || name.includes(search),
+      );
+      page = matches.slice(offset, offset + max);
+      return true;
+    },
+    Everything_GetNumResults: () => page.length,
+    Everything_GetTotResults: () => matches.length,
+    Everything_GetResultFileNameW: (index) => page[index].name,
+    Everything_GetResultPathW: (index) => page[index].path,
+    Everything_GetResultSize: (index, size) => {
+      size[0] = page[index].size ?? -1;
+      return true;
+    },
+    Everything_GetResultDateModified: () => false,
+    Everything_GetResultDateCreated: () => false,
+    Everything_GetResultDateAccessed: () => false,
+    Everything_GetResultAttributes: () => 0xffffffff,
+    Everything_GetResultRunCount: () => 0,
+    Everything_GetResultDateRecentlyChanged: () => false,
+    Everything_IsFolderResult: (index) => page[index].isDirectory === true,
+    Everything_GetLastError: () => 0,
+    Everything_GetMajorVersion: () => 1,
+    Everything_GetMinorVersion: () => 4,
+    Everything_GetRevision: () => 1,
+    Everything_GetBuildNumber: () => 1026,
+    Everything_RebuildDB: ignore,
+    Everything_IsDBLoaded: () => true,
+    Everything_IsAdmin: () => false,
+    Everything_IsAppData: () => false,
+    Everything_Reset: () => {
+      max = Number.POSITIVE_INFINITY;
+      offset = 0;
+    },
+  };
+}
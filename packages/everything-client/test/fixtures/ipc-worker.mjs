@@ -0,0 +1,11 @@
+import { parentPort } from "node:worker_threads";
+import { createJiti } from "jiti";
+
+// Worker threads bypass Vitest's transform, so load the sources with jiti
+const jiti = createJiti(import.meta.url);
+const { startIPCWorker } = await jiti.import("../../src/adapters/ipc-sdk.ts");
+const { createFakeEverythingLib } = await jiti.import(
+  "./fake-everything-lib.ts",
+);
+
+startIPCWorker(parentPort, createFakeEverythingLib);
@@ -0,0 +1,176 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  type HTTPAdapter,
+  createHTTPAdapter,
+} from "../src/adapters/http-adapter";
+import {
+  type HTTPServerSimulator,
+  createHTTPServerSimulator,
+} from "../src/testing";
+
+const MODIFIED = new Date("2024-03-10T12:00:00Z");
+
+describe("HTTPAdapter", () => {
+  let server: HTTPServerSimulator;
+  let adapter: HTTPAdapter;
+
+  beforeAll(async () => {
+    server = createHTTPServerSimulator({
+      files: [
+        "C:\\Docs\\",
+        { path: "C:\\Docs\\a.txt", size: 10, dateModified: MODIFIED },
+        { path: "C:\\Docs\\b.TXT", size: 30 },
+        { path: "C:\\Docs\\c.pdf", size: 20, attributes: 0x2 },
+      ],
+    });
+    adapter = createHTTPAdapter({ serverUrl: await server.listen() });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it("round-trips results and the requested columns", async () => {
+    const results = await adapter.search("a.txt", {
+      fields: ["size", "dateModified", "attributes"],
+    });
+
+    expect(results.items).toEqual([
+      expect.objectContaining({
+        name: "a.txt",
+        path: "C:\\Docs",
+        fullPath: "C:\\Docs\\a.txt",
+        isDirectory: false,
+        size: 10,
+        dateModified: MODIFIED,
+        attributes: 0,
+      }),
+    ]);
+    expect(results.items[0]).not.toHaveProperty("dateCreated");
+  });
+
+  it("sends the sort order and pages through the results", async () => {
+    const results = await adapter.search("file:", {
+      sortBy: "size",
+      sortOrder: "desc",
+      maxResults: 2,
+    });
+    expect(results.items.map(({ name }) => name)).toEqual(["b.TXT", "c.pdf"]);
+    expect(results.totalResults).toBe(3);
+
+    const next = await results.next();
+    expect(next?.items.map(({ name }) => name)).toEqual(["a.txt"]);
+    expect(next?.hasMore).toBe(false);
+  });
+
+  it("sends the matching flags", async () => {
+    const names = async (query: string, options = {}) =>
+      (
+        await adapter.search(query, {
+          sortBy: "name",
+          sortOrder: "asc",
+          ...options,
+        })
+      ).items.map(({ name }) => name);
+
+    expect(await names("TXT", { matchCase: true })).toEqual(["b.TXT"]);
+    expect(await names("^[ab][.]", { regex: true })).toEqual([
+      "a.txt",
+      "b.TXT",
+    ]);
+    expect(await names("docs", { matchPath: true })).toEqual([
+      "a.txt",
+      "b.TXT",
+      "c.pdf",
+      "Docs",
+    ]);
+    expect(await names("doc", { matchWholeWord: true })).toEqual([]);
+    expect(await names("attrib:h")).toEqual(["c.pdf"]);
+  });
+
+  it("reports the total of the last search with its options", async () => {
+    await expect(adapter.search("txt")).resolves.toMatchObject({
+      totalResults: 2,
+    });
+    await expect(
+      adapter.search("txt", { matchCase: true }),
+    ).resolves.toMatchObject({ totalResults: 1 });
+
+    await expect(adapter.getSearchStatus()).resolves.toEqual({
+      totalResults: 1,
+      indexingComplete: true,
+      percentComplete: 100,
+    });
+  });
+});
+
+describe("HTTPServerSimulator", () => {
+  let dir: string;
+  let server: HTTPServerSimulator;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "everything-http-"));
+    await mkdir(join(dir, "src"));
+    await writeFile(join(dir, "src", "index.ts"), "export {};\n");
+    await writeFile(join(dir, ".env"), "SECRET=1\n");
+
+    server = createHTTPServerSimulator({
+      fixtureDir: dir,
+      fixtureRoot: "D:\\Project\\",
+      username: "admin",
+      password: "secret",
+    });
+    await server.listen();
+  });
+
+  afterAll(async () => {
+    await server.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("serves a fixture directory as Windows paths", async () => {
+    const adapter = createHTTPAdapter({
+      serverUrl: server.url,
+      username: "admin",
+      password: "secret",
+    });
+
+    const results = await adapter.search("", {
+      sortBy: "path",
+      sortOrder: "asc",
+    });
+    expect(
+      results.items.map(({ fullPath, isDirectory, size }) => [
+        fullPath,
+        isDirectory,
+        size,
+      ]),
+    ).toEqual([
+      ["D:\\Project\\.env", false, 9],
+      ["D:\\Project\\src", true, null],
+      ["D:\\Project\\src\\index.ts", false, 11],
+    ]);
+    await expect(
+      adapter.search("", { fields: ["attributes"] }),
+    ).resolves.toMatchObject({
+      items: expect.arrayContaining([
+        expect.objectContaining({ name: ".env", isHidden: true }),
+      ]),
+    });
+  });
+
+  it("requires the configured Basic auth credentials", async () => {
+    const adapter = createHTTPAdapter({
+      serverUrl: server.url,
+      username: "admin",
+      password: "wrong",
+    });
+
+    await expect(adapter.search("")).rejects.toMatchObject({
+      code: "auth-failed",
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { type IPCAdapter, createIPCAdapter } from "../src/adapters/ipc-adapter";
+import { IPCWorkerHost } from "../src/adapters/ipc-worker-host";
+import { EverythingIPCError } from "../src/utils/errors";
+import {
+  SLOW_QUERY,
+  SLOW_QUERY_MS,
+  createFakeEverythingLib,
+} from "./fixtures/fake-everything-lib";
+
+const WORKER_SCRIPT = new URL("./fixtures/ipc-worker.mjs", import.meta.url);
+
+describe("IPCAdapter", () => {
+  let adapter: IPCAdapter | undefined;
+
+  afterEach(() => {
+    adapter?.disconnect();
+    adapter = undefined;
+  });
+
+  it("searches an injected library in this thread", async () => {
+    adapter = createIPCAdapter({ loadLibrary: createFakeEverythingLib });
+
+    const results = await adapter.search("notes", { fields: ["size"] });
+    expect(results.totalResults).toBe(1);
+    expect(results.items).toEqual([
+      {
+        name: "notes.txt",
+        path: "C:\\Users\\Docs",
+        fullPath: "C:\\Users\\Docs\\notes.txt",
+        isDirectory: false,
+        size: 12,
+      },
+    ]);
+  });
+
+  it("runs searches in a worker", async () => {
+    adapter = createIPCAdapter({ worker: true, workerScript: WORKER_SCRIPT });
+
+    const results = await adapter.search("*", {
+      fields: ["size"],
+      maxResults: 2,
+    });
+    expect(results.totalResults).toBe(3);
+    expect(
+      results.items.map(({ name, isDirectory, size }) => [
+        name,
+        isDirectory,
+        size,
+      ]),
+    ).toEqual([
+      ["Docs", true, null],
+      ["report.pdf", false, 2048],
+    ]);
+    await expect(adapter.getVersion()).resolves.toBe("1.4.1.1026");
+  });
+
+  it("holds the queue until an aborted worker has exited", async () => {
+    adapter = createIPCAdapter({
+      worker: true,
+      workerScript: WORKER_SCRIPT,
+      timeout: 2000,
+    });
+    await adapter.connect();
+
+    const started = Date.now();
+    const slow = adapter.search(SLOW_QUERY, {
+      signal: AbortSignal.timeout(100),
+    });
+    await expect(slow).rejects.toMatchObject({ code: "aborted" });
+
+    // The next call must not share the SDK with the blocked one
+    const results = await adapter.search("report");
+    expect(Date.now() - started).toBeGreaterThanOrEqual(SLOW_QUERY_MS);
+    expect(results.items.map(({ name }) => name)).toEqual(["report.pdf"]);
+  });
+
+  it("reports a timeout when the worker does not answer in time", async () => {
+    adapter = createIPCAdapter({
+      worker: true,
+      workerScript: WORKER_SCRIPT,
+      timeout: 750,
+    });
+    await adapter.connect();
+
+    await expect(adapter.search(SLOW_QUERY)).rejects.toMatchObject({
+      code: "timeout",
+    });
+  });
+});
+
+describe("IPCWorkerHost", () => {
+  it("rejects requests still waiting when terminated", async () => {
+    const host = new IPCWorkerHost({ script: WORKER_SCRIPT });
+    await host.request({ type: "open" });
+
+    const pending = host.request({
+      type: "query",
+      query: SLOW_QUERY,
+      options: { fields: ["name"] },
+    });
+    host.terminate();
+    await expect(pending).rejects.toThrow(EverythingIPCError);
+    await host.stopped();
+
+    // A new worker starts for the next request
+    await expect(host.request({ type: "status" })).resolves.toBe(true);
+    host.terminate();
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  type MemoryFile,
+  createMemoryAdapter,
+} from "../src/adapters/memory-adapter";
+import { createClient } from "../src/client";
+
+const FILES: MemoryFile[] = [
+  "C:\\Docs\\",
+  { path: "C:\\Docs\\report.pdf", size: 2_000_000 },
+  {
+    path: "C:\\Docs\\Notes.TXT",
+    size: 120,
+    dateModified: new Date(2024, 0, 15),
+  },
+  { path: "C:/Docs/draft notes.txt", size: 4096 },
+  { path: "C:\\Music\\song.mp3", size: 5_000_000, attributes: 0x2 },
+];
+
+describe("MemoryAdapter", () => {
+  it("evaluates queries through the client", async () => {
+    const client = createClient({
+      adapter: createMemoryAdapter({ files: FILES }),
+    });
+
+    const results = await client.search("ext:txt", { sortBy: "size" });
+    expect(results.items.map(({ fullPath }) => fullPath)).toEqual([
+      "C:\\Docs\\Notes.TXT",
+      "C:\\Docs\\draft notes.txt",
+    ]);
+    expect(results.totalResults).toBe(2);
+    await expect(client.getSearchStatus()).resolves.toMatchObject({
+      totalResults: 2,
+    });
+  });
+
+  it("sorts, pages and selects fields", async () => {
+    const adapter = createMemoryAdapter({ files: FILES });
+
+    const results = await adapter.search("", {
+      sortBy: "size",
+      sortOrder: "desc",
+      offset: 1,
+      maxResults: 2,
+      fields: ["size"],
+    });
+    expect(results.items).toEqual([
+      expect.objectContaining({ name: "report.pdf", size: 2_000_000 }),
+      expect.objectContaining({ name: "draft notes.txt", size: 4096 }),
+    ]);
+    expect(results.items[0]).not.toHaveProperty("dateModified");
+    expect(results.totalResults).toBe(5);
+    expect(results.hasMore).toBe(true);
+  });
+
+  it("indexes folders and metadata from the file list", async () => {
+    const adapter = createMemoryAdapter({ files: FILES });
+
+    await expect(adapter.search("folder:")).resolves.toMatchObject({
+      items: [{ fullPath: "C:\\Docs", isDirectory: true, size: null }],
+    });
+    await expect(
+      adapter.search("attrib:h", { fields: ["attributes"] }),
+    ).resolves.toMatchObject({
+      items: [{ name: "song.mp3", isHidden: true }],
+    });
+  });
+
+  it("applies the search options", async () => {
+    const adapter = createMemoryAdapter({ files: FILES });
+    const names = async (query: string, options = {}) =>
+      (await adapter.search(query, options)).items.map(({ name }) => name);
+
+    expect(await names("notes", { matchCase: true })).toEqual([
+      "draft notes.txt",
+    ]);
+    expect(await names("note", { matchWholeWord: true })).toEqual([]);
+    expect(await names("^d.*txt$", { regex: true })).toEqual([
+      "draft notes.txt",
+    ]);
+    expect(await names("docs", { matchPath: true, sortBy: "name" })).toEqual([
+      "Docs",
+      "draft notes.txt",
+      "Notes.TXT",
+      "report.pdf",
+    ]);
+    expect(
+      await names("", { includeHidden: false, includeFiles: false }),
+    ).toEqual(["Docs"]);
+  });
+
+  it("wraps queries it cannot evaluate in a search error", async () => {
+    const adapter = createMemoryAdapter({ files: FILES });
+    await expect(adapter.search("dupe:size")).rejects.toMatchObject({
+      name: "EverythingSearchError",
+      message: expect.stringContaining("cannot be evaluated locally"),
+    });
+  });
+
+  it("reports added and removed files to matching listeners", async () => {
+    const adapter = createMemoryAdapter({
+      files: FILES,
+      now: () => new Date(2024, 5, 1),
+    });
+    const callback = vi.fn();
+    const unsubscribe = adapter.monitorFileChanges(callback, {
+      query: "ext:txt",
+    });
+
+    adapter.addFile("C:\\Docs\\todo.txt");
+    adapter.addFile("C:\\Docs\\todo.pdf");
+    adapter.removeFile("C:/Docs/notes.txt");
+    unsubscribe();
+    adapter.removeFile("C:\\Docs\\todo.txt");
+
+    expect(callback.mock.calls).toEqual([
+      [[{ path: "C:\\Docs\\todo.txt", type: "added" }]],
+      [[{ path: "C:\\Docs\\Notes.TXT", type: "deleted" }]],
+    ]);
+    await expect(
+      adapter.search("rc:2024-06-01", { sortBy: "name" }),
+    ).resolves.toMatchObject({
+      items: [
+        { name: "Docs", dateModified: new Date(2024, 5, 1) },
+        { name: "todo.pdf" },
+      ],
+    });
+  });
+});
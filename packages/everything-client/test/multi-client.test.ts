@@ -0,0 +1,133 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createHTTPAdapter } from "../src/adapters/http-adapter";
+import { createMemoryAdapter } from "../src/adapters/memory-adapter";
+import { createClient } from "../src/client";
+import { createMultiClient } from "../src/multi-client";
+import {
+  type HTTPServerSimulator,
+  createHTTPServerSimulator,
+} from "../src/testing";
+import type { MultiClient } from "../src/types";
+
+const SERVER_FILES = [
+  { path: "C:\\Music\\b.mp3", size: 300 },
+  { path: "C:\\Music\\d.mp3", size: 100 },
+  { path: "C:\\Music\\f.mp3", size: 500 },
+];
+const LAPTOP_FILES = [
+  { path: "D:\\Music\\a.mp3", size: 200 },
+  { path: "D:\\Music\\c.mp3", size: 600 },
+  { path: "D:\\Music\\e.mp3", size: 400 },
+];
+
+describe("createMultiClient", () => {
+  const servers: HTTPServerSimulator[] = [];
+  let multi: MultiClient;
+
+  beforeAll(async () => {
+    const sources = [];
+    for (const [name, files] of [
+      ["server", SERVER_FILES],
+      ["laptop", LAPTOP_FILES],
+    ] as const) {
+      const server = createHTTPServerSimulator({ files: [...files] });
+      servers.push(server);
+      const serverUrl = await server.listen();
+      sources.push({
+        name,
+        client: createClient({ adapter: createHTTPAdapter({ serverUrl }) }),
+      });
+    }
+    multi = createMultiClient(sources);
+  });
+
+  afterAll(async () => {
+    await Promise.all(servers.map((server) => server.close()));
+  });
+
+  it("merges the sources in ascending name order by default", async () => {
+    const results = await multi.search("mp3");
+    expect(results.items.map(({ name, source }) => [name, source])).toEqual([
+      ["a.mp3", "laptop"],
+      ["b.mp3", "server"],
+      ["c.mp3", "laptop"],
+      ["d.mp3", "server"],
+      ["e.mp3", "laptop"],
+      ["f.mp3", "server"],
+    ]);
+    expect(results.totalResults).toBe(6);
+    expect(results.sourceTotals).toEqual({ server: 3, laptop: 3 });
+    expect(results.errors).toEqual([]);
+  });
+
+  it("pages through the merged order", async () => {
+    const first = await multi.search("mp3", { maxResults: 2 });
+    expect(first.items.map(({ name }) => name)).toEqual(["a.mp3", "b.mp3"]);
+    expect(first.hasMore).toBe(true);
+
+    const second = await multi.search("mp3", { offset: 2, maxResults: 2 });
+    expect(second.items.map(({ name }) => name)).toEqual(["c.mp3", "d.mp3"]);
+
+    const third = await second.next();
+    expect(third?.offset).toBe(4);
+    expect(third?.items.map(({ name }) => name)).toEqual(["e.mp3", "f.mp3"]);
+    expect(third?.hasMore).toBe(false);
+    await expect(third?.next()).resolves.toBeNull();
+  });
+
+  it("merges by a field that was not requested and leaves it out", async () => {
+    const results = await multi.search("mp3", {
+      sortBy: "size",
+      sortOrder: "desc",
+      fields: ["dateModified"],
+      offset: 1,
+      maxResults: 3,
+    });
+    expect(results.items.map(({ name }) => name)).toEqual([
+      "f.mp3",
+      "e.mp3",
+      "b.mp3",
+    ]);
+    for (const item of results.items) {
+      expect(item).not.toHaveProperty("size");
+    }
+  });
+
+  it("reports failed sources and keeps the others", async () => {
+    const offline = createMultiClient([
+      { name: "server", client: createClient({ serverUrl: servers[0].url }) },
+      {
+        name: "offline",
+        client: createClient({
+          adapter: createHTTPAdapter({ serverUrl: "http://127.0.0.1:1" }),
+        }),
+      },
+    ]);
+
+    const results = await offline.search("mp3");
+    expect(results.items.map(({ source }) => source)).toEqual([
+      "server",
+      "server",
+      "server",
+    ]);
+    expect(results.errors.map(({ source }) => source)).toEqual(["offline"]);
+  });
+
+  it("throws when every source fails", async () => {
+    const failing = createMultiClient([
+      createClient({
+        adapter: createHTTPAdapter({ serverUrl: "http://127.0.0.1:1" }),
+      }),
+    ]);
+    await expect(failing.search("mp3")).rejects.toThrow("All sources failed");
+  });
+
+  it("rejects sort keys results do not carry", async () => {
+    const local = createMultiClient([
+      createClient({ adapter: createMemoryAdapter() }),
+    ]);
+    await expect(local.search("", { sortBy: "type-name" })).rejects.toThrow(
+      'cannot be merged by "type-name"',
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  type MatchableResult,
+  createQueryMatcher,
+  formatQuery,
+  parseQuery,
+} from "../src/query";
+
+describe("formatQuery", () => {
+  it.each([
+    ["album:beatles", "album:beatles"],
+    ['"album:beatles"', '"album:beatles"'],
+    ['"report"  |  notes', "report | notes"],
+    ['foo"bar baz"', '"foobar baz"'],
+    ["ext:pdf   size:>1mb", "ext:pdf size:>1mb"],
+    ["quot:x", "quot:x"],
+    ["!<a   |   b>", "!<a | b>"],
+  ])("formats %s as %s", (query, expected) => {
+    expect(formatQuery(query)).toBe(expected);
+  });
+
+  it("keeps the meaning of unknown name:value terms", () => {
+    const query = "album:beatles year:1969";
+    expect(formatQuery(parseQuery(query))).toBe(query);
+    expect(parseQuery(formatQuery(query))).toMatchObject({
+      type: "and",
+      children: [
+        { type: "text", value: "album:beatles", quoted: false },
+        { type: "text", value: "year:1969", quoted: false },
+      ],
+    });
+  });
+});
+
+/**
+ * Build a result for the matcher, with every metadata field unknown
+ */
+function result(
+  fullPath: string,
+  metadata: Partial<MatchableResult> = {},
+): MatchableResult {
+  const separator = fullPath.lastIndexOf("\\");
+  return {
+    name: fullPath.slice(separator + 1),
+    path: fullPath.slice(0, separator),
+    fullPath,
+    isDirectory: false,
+    size: null,
+    dateModified: null,
+    dateCreated: null,
+    dateAccessed: null,
+    attributes: null,
+    isHidden: null,
+    isSystem: null,
+    isReadOnly: null,
+    runCount: 0,
+    dateRecentlyChanged: null,
+    ...metadata,
+  };
+}
+
+const RESULTS = [
+  result("C:\\Docs", { isDirectory: true }),
+  result("C:\\Docs\\Report 2024.PDF", {
+    size: 3 * 1024 * 1024,
+    dateModified: new Date(2024, 2, 10, 12),
+  }),
+  result("C:\\Docs\\notes.txt", {
+    size: 800,
+    dateModified: new Date(2024, 5, 1, 8),
+    content: "Meeting notes",
+  }),
+  result("D:\\Music\\track01.mp3", { size: 5 * 1024 * 1024 }),
+];
+
+describe("createQueryMatcher", () => {
+  it.each([
+    ["report", ["Report 2024.PDF"]],
+    ["*.txt", ["notes.txt"]],
+    ["track??.mp3", ["track01.mp3"]],
+    ["ext:pdf;mp3", ["Report 2024.PDF", "track01.mp3"]],
+    ["size:>1mb", ["Report 2024.PDF", "track01.mp3"]],
+    ["size:1kb..4mb", ["Report 2024.PDF"]],
+    ["size:unknown file:", []],
+    ["dm:2024-03", ["Report 2024.PDF"]],
+    ["dm:>=2024-06-01", ["notes.txt"]],
+    ["dm:thisyear", ["Report 2024.PDF", "notes.txt"]],
+    ["path:music", ["track01.mp3"]],
+    ["docs\\ !folder:", ["Report 2024.PDF", "notes.txt"]],
+    ["regex:^n.*t$", ["notes.txt"]],
+    ["case:report", []],
+    ["ww:port", []],
+    ["wfn:notes.txt", ["notes.txt"]],
+    ["content:meeting", ["notes.txt"]],
+    ["parent:C:\\Docs\\ <pdf | txt>", ["Report 2024.PDF", "notes.txt"]],
+    ["audio: | doc:", ["Report 2024.PDF", "notes.txt", "track01.mp3"]],
+  ])("matches %s", (query, expected) => {
+    const matches = createQueryMatcher(query, {
+      now: new Date(2024, 6, 1),
+    });
+    expect(RESULTS.filter(matches).map(({ name }) => name)).toEqual(expected);
+  });
+
+  it("applies the matching options", () => {
+    const names = (query: string, options = {}) =>
+      RESULTS.filter(createQueryMatcher(query, options)).map(
+        ({ name }) => name,
+      );
+
+    expect(names("REPORT", { matchCase: true })).toEqual([]);
+    expect(names("2024", { matchWholeWord: true })).toEqual([
+      "Report 2024.PDF",
+    ]);
+    expect(names("music", { matchPath: true })).toEqual(["track01.mp3"]);
+    expect(names("\\d{2}\\.mp3$", { regex: true })).toEqual(["track01.mp3"]);
+    expect(names("nocase:REPORT", { matchCase: true })).toEqual([
+      "Report 2024.PDF",
+    ]);
+  });
+
+  it("rejects functions it cannot evaluate", () => {
+    expect(() => createQueryMatcher("dupe:size")).toThrow(
+      "cannot be evaluated locally",
+    );
+    expect(() => createQueryMatcher("size:>unknown")).toThrow(
+      "cannot compare against unknown",
+    );
+  });
+});
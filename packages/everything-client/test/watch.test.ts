@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { FileChange } from "../src/types";
+import { pollChanges } from "../src/utils/watch";
+
+const CHANGE: FileChange = { path: "C:\\Docs\\a.txt", type: "added" };
+
+describe("pollChanges", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("backs off after failed polls and resets after a success", async () => {
+    const detect = vi
+      .fn<() => Promise<FileChange[]>>()
+      .mockRejectedValueOnce(new Error("offline"))
+      .mockRejectedValueOnce(new Error("offline"))
+      .mockResolvedValue([CHANGE]);
+    const callback = vi.fn();
+    const onError = vi.fn();
+    const stop = pollChanges(detect, { interval: 100, onError }, callback);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onError).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(detect).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(399);
+    expect(detect).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(callback).toHaveBeenCalledWith([CHANGE]);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(detect).toHaveBeenCalledTimes(4);
+
+    stop();
+  });
+
+  it("keeps polling when onError throws", async () => {
+    const detect = vi
+      .fn<() => Promise<FileChange[]>>()
+      .mockRejectedValueOnce(new Error("offline"))
+      .mockResolvedValue([CHANGE]);
+    const callback = vi.fn(() => {
+      throw new Error("callback failed");
+    });
+    const onError = vi.fn(() => {
+      throw new Error("handler failed");
+    });
+    const stop = pollChanges(detect, { interval: 100, onError }, callback);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(detect).toHaveBeenCalledTimes(3);
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledTimes(3);
+    expect(console.error).toHaveBeenCalledWith(
+      "Error in onError handler:",
+      expect.objectContaining({ message: "handler failed" }),
+    );
+
+    stop();
+  });
+});
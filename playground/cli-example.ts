@@ -1,5 +1,5 @@
 import { exit } from "node:process";
-import { createCLIAdapter } from "../packages/everything-client/src/adapters";
+import { createCLIAdapter } from "../packages/everything-client/src/adapters/cli-adapter";
 import {
   EverythingConnectionError,
   EverythingSearchError,
@@ -32,8 +32,10 @@ async function main() {
     });
 
     // Display search results
-    console.log("\nSearch results:");
-    for (const [index, result] of results.entries()) {
+    console.log(
+      `\nSearch results (${results.items.length} of ${results.totalResults}):`,
+    );
+    for (const [index, result] of results.items.entries()) {
       console.log(`\n${index + 1}. ${result.fullPath}`);
       console.log(`   Size: ${result.size} bytes`);
       console.log(`   Modified: ${result.dateModified}`);
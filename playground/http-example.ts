@@ -1,5 +1,5 @@
 import { exit } from "node:process";
-import { createHTTPAdapter } from "../packages/everything-client/src/adapters";
+import { createHTTPAdapter } from "../packages/everything-client/src/http";
 import {
   EverythingConnectionError,
   EverythingSearchError,
@@ -21,9 +21,12 @@ async function main() {
     await adapter.connect();
     console.log("Connected successfully!");
 
-    // Get Everything version
-    const version = await adapter.getVersion();
-    console.log(`Everything version: ${version}`);
+    // The HTTP server cannot report its version, so check before asking
+    const capabilities = await adapter.getCapabilities();
+    if (capabilities.operations.includes("getVersion")) {
+      const version = await adapter.getVersion();
+      console.log(`Everything version: ${version}`);
+    }
 
     // Execute search with standardized options
     console.log("\nExecuting search...");
@@ -36,8 +39,10 @@ async function main() {
     });
 
     // Display search results
-    console.log("\nSearch results:");
-    for (const [index, result] of results.entries()) {
+    console.log(
+      `\nSearch results (${results.items.length} of ${results.totalResults}):`,
+    );
+    for (const [index, result] of results.items.entries()) {
       console.log(`\n${index + 1}. ${result.fullPath}`);
       console.log(`   Size: ${result.size} bytes`);
       console.log(`   Modified: ${result.dateModified}`);
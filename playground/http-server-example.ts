@@ -0,0 +1,48 @@
+import { exit } from "node:process";
+import { createHTTPAdapter } from "../packages/everything-client/src/http";
+import { createHTTPServerSimulator } from "../packages/everything-client/src/testing";
+
+async function main() {
+  // Serve a fixed file list with Basic authentication
+  const server = createHTTPServerSimulator({
+    files: [
+      "C:\\Docs\\",
+      { path: "C:\\Docs\\report.pdf", size: 20 * 1024 * 1024 },
+      { path: "C:\\Docs\\notes.txt", size: 100, dateModified: new Date() },
+    ],
+    username: "admin",
+    password: "password",
+  });
+
+  try {
+    const serverUrl = await server.listen();
+    console.log(`Simulator listening on ${serverUrl}`);
+
+    // Exercise the real HTTP adapter against the simulator
+    const adapter = createHTTPAdapter({
+      serverUrl,
+      username: "admin",
+      password: "password",
+    });
+
+    const results = await adapter.search("ext:pdf;txt", {
+      sortBy: "size",
+      sortOrder: "desc",
+    });
+
+    console.log(`\nFound ${results.totalResults} results:`);
+    for (const result of results.items) {
+      console.log(`- ${result.fullPath} (${result.size} bytes)`);
+    }
+  } finally {
+    await server.close();
+  }
+}
+
+// Run example
+main()
+  .then(() => exit(0))
+  .catch((error) => {
+    console.error("Fatal error:", error);
+    exit(1);
+  });